@@ -1,26 +1,171 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import * as OpenCC from "opencc-js";
 import WritingBoard from "./components/WritingBoard";
-import { CharacterInfo } from "./types";
-import { getCharacterInsights } from "./services/geminiService";
-import { playCloudTTS } from "./services/ttsService";
+import QuizScoreCard from "./components/QuizScoreCard";
+import FreehandScoreCard from "./components/FreehandScoreCard";
+import WordInsightsPanel from "./components/WordInsightsPanel";
+import ExampleWords from "./components/ExampleWords";
+import GridSettingsPanel from "./components/GridSettingsPanel";
+import WorksheetDialog from "./components/WorksheetDialog";
+import StrokeOrderStrip from "./components/StrokeOrderStrip";
+import AttemptLogDialog from "./components/AttemptLogDialog";
+import LessonLibraryDialog from "./components/LessonLibraryDialog";
+import ProfileSwitcher from "./components/ProfileSwitcher";
+import ProgressDashboard from "./components/ProgressDashboard";
+import ExportDialog from "./components/ExportDialog";
+import ExamSession from "./components/ExamSession";
+import PronunciationPanel from "./components/PronunciationPanel";
+import ReadingView, { RUBY_MODE_LABELS } from "./components/ReadingView";
+import RubyChar from "./components/RubyChar";
+import {
+  CharacterInfo,
+  CompletedCharacter,
+  FreehandResult,
+  GridSettings,
+  InsightsPrefetch,
+  LearnerProfile,
+  PracticeMode,
+  QuizResult,
+  RubyMode,
+  SpeechBoundary,
+  SpeechPlayback,
+  SpeechProviderId,
+  SpeechVoice,
+  WordInfo,
+  WritingAttempt,
+} from "./types";
+import {
+  getCharacterInsights,
+  getWordInsights,
+  hasInsightsProvider,
+  prefetchInsights,
+} from "./services/insightsService";
+import { segmentWords, findWordAt } from "./services/segmentationService";
+import { getSpeechProvider, getSpeechProviders, speak, stopSpeech } from "./services/speechService";
+import { onVoicesChanged } from "./services/webSpeechService";
+import { clearAllCaches } from "./services/cacheService";
+import { deleteProfileAttempts, saveAttempt } from "./services/attemptLogService";
+import { HIDDEN_CHAR, getDictationPrompt } from "./services/dictationService";
+import { HINT_AFTER_MISSES } from "./services/quizService";
+import { formatReading, getTextReadings } from "./services/readingService";
+import { getAllLessons, loadUserLessons } from "./services/lessonService";
+import {
+  ProfileStore,
+  createProfile,
+  getActiveProfile,
+  loadProfileStore,
+  recordCompletion,
+  saveProfileStore,
+  updateProfile,
+} from "./services/profileService";
+import {
+  ReviewStore,
+  loadReviewStore,
+  saveReviewStore,
+  deleteReviewStore,
+  recordQuizOutcome,
+  getDueCards,
+} from "./services/srsService";
 
-const DEFAULT_TEXT = "永和九年";
+// 解析面板中以格狀顯示的欄位
+const INSIGHT_FIELDS: {
+  field: "pinyin" | "zhuyin" | "radical" | "strokeCount";
+  label: string;
+}[] = [
+  { field: "pinyin", label: "拼音" },
+  { field: "zhuyin", label: "注音" },
+  { field: "radical", label: "部首" },
+  { field: "strokeCount", label: "筆劃" },
+];
 
 const App: React.FC = () => {
-  const [inputText, setInputText] = useState(DEFAULT_TEXT);
-  const [activeText, setActiveText] = useState(DEFAULT_TEXT);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [speed, setSpeed] = useState(1);
-  const [isDemoCompact, setIsDemoCompact] = useState(false);
+  // 學習者設定檔：以下的偏好與練習位置都從目前的學習者還原
+  const [profileStore, setProfileStore] =
+    useState<ProfileStore>(loadProfileStore);
+  const activeProfile = getActiveProfile(profileStore);
+  const initialPreferences = activeProfile.preferences;
+
+  const [activeText, setActiveText] = useState(activeProfile.position.text);
+  const [activeLessonId, setActiveLessonId] = useState(
+    activeProfile.position.lessonId
+  );
+  const [inputText, setInputText] = useState(activeText);
+  const [currentIndex, setCurrentIndex] = useState(activeProfile.position.index);
+  const [speed, setSpeed] = useState(initialPreferences.speed);
+  const [isDemoCompact, setIsDemoCompact] = useState(
+    initialPreferences.isDemoCompact
+  );
   const [insights, setInsights] = useState<CharacterInfo | null>(null);
   const [isLoadingInsights, setIsLoadingInsights] = useState(false);
+  // 整段文字的解析預先載入 (批次請求) 與進度
+  const insightsPrefetchRef = useRef<InsightsPrefetch | null>(null);
+  const [prefetchProgress, setPrefetchProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+  // 最後一次要求解析的字，較慢回來的舊結果不覆蓋
+  const insightsCharRef = useRef("");
+  const [insightsTab, setInsightsTab] = useState<"char" | "word">("char");
+  const [wordInsights, setWordInsights] = useState<WordInfo | null>(null);
+  const [isLoadingWordInsights, setIsLoadingWordInsights] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const [isSimplified, setIsSimplified] = useState(false);
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [selectedVoice, setSelectedVoice] =
-    useState<SpeechSynthesisVoice | null>(null);
-  const [useCloudVoice, setUseCloudVoice] = useState(false); // 新增：雲端語音開關
+  // 朗讀全文或整個詞時，正在唸的字在導覽列中的範圍
+  const [readingScope, setReadingScope] = useState<"word" | "text" | null>(null);
+  const [readingRange, setReadingRange] = useState<{
+    start: number;
+    end: number;
+  } | null>(null);
+  const playbackRef = useRef<SpeechPlayback | null>(null);
+  // 每次播放遞增；被新的播放打斷時，舊的播放結束後不再重設朗讀狀態
+  const speechRequestRef = useRef(0);
+  const [isSimplified, setIsSimplified] = useState(
+    initialPreferences.isSimplified
+  );
+  const [voices, setVoices] = useState<SpeechVoice[]>([]);
+  // 使用者手動選擇的語音 id (null 為自動選擇)
+  const [voiceName, setVoiceName] = useState(initialPreferences.voiceName);
+  const [speechProvider, setSpeechProvider] = useState<SpeechProviderId>(
+    initialPreferences.speechProvider
+  );
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
+  // 練習區：HanziWriter 測驗或保留筆跡的自由書寫
+  const [practiceMode, setPracticeMode] = useState<
+    Exclude<PracticeMode, "viewer">
+  >(initialPreferences.practiceMode);
+  const [freehandResult, setFreehandResult] = useState<FreehandResult | null>(
+    null
+  );
+  // 聽寫：寫完或按下揭曉後才顯示的字 (以導覽列索引記錄)
+  const [isDictation, setIsDictation] = useState(initialPreferences.isDictation);
+  const [revealedIndices, setRevealedIndices] = useState<Set<number>>(
+    () => new Set()
+  );
+  const [highlightRadical, setHighlightRadical] = useState(
+    initialPreferences.highlightRadical
+  );
+  const [highlightComponents, setHighlightComponents] = useState(
+    initialPreferences.highlightComponents
+  );
+  const [showWorksheet, setShowWorksheet] = useState(false);
+  const [showAttemptLog, setShowAttemptLog] = useState(false);
+  const [showLessons, setShowLessons] = useState(false);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showExam, setShowExam] = useState(false);
+  const [showReadingView, setShowReadingView] = useState(false);
+  // 導覽列與全文閱讀的注音 / 拼音標注，讀音與導覽列的字對齊
+  const [rubyMode, setRubyMode] = useState<RubyMode>(initialPreferences.rubyMode);
+  const [textReadings, setTextReadings] = useState<(string | null)[]>([]);
+  // 示範板的播放狀態 (已完成筆劃數 / 總筆劃數)
+  const [isDemoPlaying, setIsDemoPlaying] = useState(true);
+  const [demoStroke, setDemoStroke] = useState(0);
+  const [demoStrokeTotal, setDemoStrokeTotal] = useState(0);
+  const [gridSettings, setGridSettings] = useState<GridSettings>(
+    initialPreferences.grid
+  );
+  const [reviewStore, setReviewStore] = useState<ReviewStore>(() =>
+    loadReviewStore(activeProfile.id)
+  );
 
   // Converters
   const cn2tw = OpenCC.Converter({ from: "cn", to: "tw" });
@@ -29,39 +174,17 @@ const App: React.FC = () => {
   // 新增：動態計算寫字板尺寸
   const [boardSize, setBoardSize] = useState(350);
 
-  // Load voices
+  // 載入目前語音來源的語音清單 (本地語音由瀏覽器非同步載入)
   useEffect(() => {
-    const loadVoices = () => {
-      const availableVoices = window.speechSynthesis.getVoices();
-      setVoices(availableVoices);
-    };
-
+    const loadVoices = () =>
+      setVoices(getSpeechProvider(speechProvider).listVoices(isSimplified));
     loadVoices();
-    window.speechSynthesis.onvoiceschanged = loadVoices;
-  }, []);
-
-  // Auto-select best voice based on language mode
-  useEffect(() => {
-    if (voices.length === 0) return;
+    return onVoicesChanged(loadVoices);
+  }, [speechProvider, isSimplified]);
 
-    const targetLang = isSimplified ? "zh-CN" : "zh-TW";
-
-    // Priority list for better sounding voices
-    const preferredNames = isSimplified
-      ? ["Tingting", "Lili", "Google 普通话", "Microsoft Xiaoxiao"]
-      : ["Meijia", "HsiaoYu", "Google 國語", "Microsoft Hanhan"];
-
-    const bestVoice =
-      voices.find((v) =>
-        preferredNames.some((name) => v.name.includes(name))
-      ) ||
-      voices.find((v) => v.lang === targetLang) ||
-      voices.find((v) => v.lang.startsWith("zh"));
-
-    if (bestVoice) {
-      setSelectedVoice(bestVoice);
-    }
-  }, [voices, isSimplified]);
+  // 手動選擇的語音不在清單中時，使用排序最前面 (音質較好) 的語音
+  const selectedVoiceId =
+    voices.find((v) => v.id === voiceName)?.id ?? voices[0]?.id ?? null;
 
   useEffect(() => {
     const handleResize = () => {
@@ -84,32 +207,325 @@ const App: React.FC = () => {
     return () => window.removeEventListener("resize", handleResize);
   }, []);
 
+  // 偏好或練習位置變更時寫回目前的學習者
+  useEffect(() => {
+    setProfileStore((prev) =>
+      updateProfile(prev, prev.activeId, (profile) => ({
+        ...profile,
+        preferences: {
+          isSimplified,
+          voiceName,
+          speechProvider,
+          speed,
+          grid: gridSettings,
+          isDemoCompact,
+          practiceMode,
+          isDictation,
+          highlightRadical,
+          highlightComponents,
+          rubyMode,
+        },
+        position: { text: activeText, index: currentIndex, lessonId: activeLessonId },
+      }))
+    );
+  }, [
+    isSimplified,
+    voiceName,
+    speechProvider,
+    speed,
+    gridSettings,
+    isDemoCompact,
+    practiceMode,
+    isDictation,
+    highlightRadical,
+    highlightComponents,
+    rubyMode,
+    activeText,
+    currentIndex,
+    activeLessonId,
+  ]);
+
+  useEffect(() => {
+    saveProfileStore(profileStore);
+  }, [profileStore]);
+
+  // 複習排程變更時寫回 localStorage
+  useEffect(() => {
+    saveReviewStore(reviewStore, profileStore.activeId);
+  }, [reviewStore, profileStore.activeId]);
+
+  const dueCards = getDueCards(reviewStore, isSimplified);
+
   const characters = activeText.split("").filter((c) => /\S/.test(c));
   const currentChar = characters[currentIndex] || "";
 
+  // 還原的練習位置超出文字長度時回到第一個字
+  useEffect(() => {
+    if (characters.length > 0 && currentIndex >= characters.length) {
+      setCurrentIndex(0);
+    }
+  }, [characters.length, currentIndex]);
+
+  // 斷詞：找出目前的字所在的詞
+  const wordSegments = useMemo(
+    () => segmentWords(activeText.split("").filter((c) => /\S/.test(c)), isSimplified),
+    [activeText, isSimplified]
+  );
+  const currentWord = findWordAt(wordSegments, currentIndex)?.word || currentChar;
+  const isCharHidden = isDictation && !revealedIndices.has(currentIndex);
+
+  const revealCurrent = useCallback(() => {
+    setRevealedIndices((prev) => new Set(prev).add(currentIndex));
+  }, [currentIndex]);
+
   const fetchInsights = useCallback(
     async (char: string) => {
       if (!char) return;
+      insightsCharRef.current = char;
       setIsLoadingInsights(true);
-      const data = await getCharacterInsights(char, isSimplified);
+      // 預先載入中的字等待批次結果；預先載入被取消 (換了文字) 時改等新的
+      let prefetch = insightsPrefetchRef.current;
+      let data = await prefetch?.insights.get(char);
+      while (data === undefined && prefetch?.isCancelled()) {
+        prefetch = insightsPrefetchRef.current;
+        data = await prefetch?.insights.get(char);
+      }
+      // 不在預先載入中或批次沒有取得的字單獨查詢
+      if (data === undefined) {
+        data = await getCharacterInsights(char, isSimplified);
+      }
+      if (insightsCharRef.current !== char) return;
       setInsights(data);
       setIsLoadingInsights(false);
     },
     [isSimplified]
   );
 
+  // 載入新文字 (handleUpdateText、課程、切換學習者) 時以批次請求預先取得所有字的解析，
+  // 換文字或切換繁簡時取消尚未完成的批次。
+  // 目前的字由 fetchInsights 直接查詢，其餘從目前位置往後排入批次
+  useEffect(() => {
+    if (!hasInsightsProvider()) return;
+    const chars = activeText.split("").filter((c) => /\S/.test(c));
+    const start = Math.min(currentIndex, chars.length);
+    const ordered = [...chars.slice(start), ...chars.slice(0, start)].filter(
+      (char) => char !== chars[start]
+    );
+    const prefetch = prefetchInsights(
+      ordered,
+      isSimplified,
+      (done, total) => setPrefetchProgress(done < total ? { done, total } : null)
+    );
+    insightsPrefetchRef.current = prefetch;
+    return () => {
+      prefetch.cancel();
+      insightsPrefetchRef.current = null;
+      setPrefetchProgress(null);
+    };
+  }, [activeText, isSimplified]);
+
   useEffect(() => {
     fetchInsights(currentChar);
   }, [currentChar, fetchInsights]);
 
-  const handleUpdateText = () => {
-    if (inputText.trim()) {
-      const convertedText = isSimplified ? tw2cn(inputText) : cn2tw(inputText);
-      setActiveText(convertedText);
-      // Optional: Update input text to match the converted text
-      setInputText(convertedText);
-      setCurrentIndex(0);
+  useEffect(() => {
+    setDemoStroke(0);
+    setDemoStrokeTotal(0);
+  }, [currentChar]);
+
+  // 詞語解析只在切換到「詞」分頁時才取得
+  useEffect(() => {
+    if (insightsTab !== "word" || currentWord.length <= 1) {
+      setWordInsights(null);
+      setIsLoadingWordInsights(false);
+      return;
     }
+    let cancelled = false;
+    setIsLoadingWordInsights(true);
+    getWordInsights(currentWord, isSimplified).then((data) => {
+      if (cancelled) return;
+      setWordInsights(data);
+      setIsLoadingWordInsights(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [insightsTab, currentWord, isSimplified]);
+
+  // 需要標注時才查詢整段文字的讀音
+  const needsReadings = rubyMode !== "none" || showReadingView;
+  useEffect(() => {
+    if (!needsReadings) return;
+    let cancelled = false;
+    const chars = activeText.split("").filter((c) => /\S/.test(c));
+    setTextReadings([]);
+    getTextReadings(chars, isSimplified).then((readings) => {
+      if (!cancelled) setTextReadings(readings);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsReadings, activeText, isSimplified]);
+
+  // 載入新的練習文字 (依目前字體做繁簡轉換)
+  const loadPracticeText = (text: string, lessonId: string | null = null) => {
+    if (!text.trim()) return;
+    const convertedText = isSimplified ? tw2cn(text) : cn2tw(text);
+    setActiveText(convertedText);
+    setActiveLessonId(lessonId);
+    // Optional: Update input text to match the converted text
+    setInputText(convertedText);
+    setCurrentIndex(0);
+    setQuizResult(null);
+    setFreehandResult(null);
+  };
+
+  const handleUpdateText = () => {
+    loadPracticeText(inputText);
+  };
+
+  const recordHistory = useCallback((entry: CompletedCharacter) => {
+    setProfileStore((prev) =>
+      updateProfile(prev, prev.activeId, (profile) =>
+        recordCompletion(profile, entry)
+      )
+    );
+  }, []);
+
+  const handleQuizResult = useCallback(
+    (result: QuizResult) => {
+      setQuizResult(result);
+      setReviewStore((prev) => recordQuizOutcome(prev, result, isSimplified));
+      if (isDictation) revealCurrent();
+      recordHistory({
+        char: result.char,
+        isSimplified,
+        mode: isDictation ? "dictation" : "quiz",
+        score: result.accuracy,
+        mistakes: result.totalMistakes,
+        missedStrokes: result.strokes
+          .filter((s) => s.mistakes > 0)
+          .map((s) => s.strokeNum),
+        durationMs: result.totalDurationMs,
+        lessonId: activeLessonId,
+        completedAt: result.completedAt,
+      });
+    },
+    [isSimplified, isDictation, activeLessonId, recordHistory, revealCurrent]
+  );
+
+  const handleAttempt = useCallback(
+    (attempt: WritingAttempt) => saveAttempt(attempt, profileStore.activeId),
+    [profileStore.activeId]
+  );
+
+  // 考試的結果只寫入紀錄與複習排程，不影響練習區的評分卡與聽寫狀態
+  const handleExamResult = useCallback(
+    (result: QuizResult) => {
+      setReviewStore((prev) => recordQuizOutcome(prev, result, isSimplified));
+      recordHistory({
+        char: result.char,
+        isSimplified,
+        mode: "exam",
+        score: result.accuracy,
+        mistakes: result.totalMistakes,
+        missedStrokes: result.strokes
+          .filter((s) => s.mistakes > 0)
+          .map((s) => s.strokeNum),
+        durationMs: result.totalDurationMs,
+        lessonId: activeLessonId,
+        completedAt: result.completedAt,
+      });
+    },
+    [isSimplified, activeLessonId, recordHistory]
+  );
+
+  const handleFreehandResult = useCallback(
+    (result: FreehandResult) => {
+      setFreehandResult(result);
+      if (isDictation) revealCurrent();
+      const missedStrokes = result.strokes
+        .filter((s) => s.drawnIndex === null || s.issues.length > 0)
+        .map((s) => s.strokeNum);
+      recordHistory({
+        char: result.char,
+        isSimplified,
+        mode: isDictation ? "dictation" : "freehand",
+        score: result.score,
+        mistakes: missedStrokes.length + result.extraStrokes.length,
+        missedStrokes,
+        durationMs: result.completedAt - result.startedAt,
+        lessonId: activeLessonId,
+        completedAt: result.completedAt,
+      });
+    },
+    [isSimplified, isDictation, activeLessonId, recordHistory, revealCurrent]
+  );
+
+  // 切換學習者：還原對方的偏好、練習位置與複習排程
+  const applyProfile = (profile: LearnerProfile) => {
+    const { preferences, position } = profile;
+    setIsSimplified(preferences.isSimplified);
+    setVoiceName(preferences.voiceName);
+    setSpeechProvider(preferences.speechProvider);
+    setSpeed(preferences.speed);
+    setGridSettings(preferences.grid);
+    setIsDemoCompact(preferences.isDemoCompact);
+    setPracticeMode(preferences.practiceMode);
+    setIsDictation(preferences.isDictation);
+    setHighlightRadical(preferences.highlightRadical);
+    setHighlightComponents(preferences.highlightComponents);
+    setRubyMode(preferences.rubyMode);
+    setActiveText(position.text);
+    setInputText(position.text);
+    setCurrentIndex(position.index);
+    setActiveLessonId(position.lessonId);
+    setReviewStore(loadReviewStore(profile.id));
+    setQuizResult(null);
+    setFreehandResult(null);
+    setProfileStore((prev) => ({ ...prev, activeId: profile.id }));
+  };
+
+  const handleSwitchProfile = (id: string) => {
+    const profile = profileStore.profiles.find((p) => p.id === id);
+    if (profile && id !== profileStore.activeId) applyProfile(profile);
+  };
+
+  const handleCreateProfile = (name: string) => {
+    const profile = createProfile(name);
+    setProfileStore((prev) => ({
+      ...prev,
+      profiles: [...prev.profiles, profile],
+    }));
+    applyProfile(profile);
+  };
+
+  const handleRenameProfile = (id: string, name: string) => {
+    setProfileStore((prev) =>
+      updateProfile(prev, id, (profile) => ({ ...profile, name }))
+    );
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    if (id === profileStore.activeId) return;
+    deleteReviewStore(id);
+    deleteProfileAttempts(id);
+    setProfileStore((prev) => ({
+      ...prev,
+      profiles: prev.profiles.filter((p) => p.id !== id),
+    }));
+  };
+
+  // 將今日到期的字載入導覽列
+  const handleStartReview = () => {
+    if (dueCards.length === 0) return;
+    const reviewText = dueCards.map((card) => card.char).join("");
+    setActiveText(reviewText);
+    setActiveLessonId(null);
+    setInputText(reviewText);
+    setCurrentIndex(0);
+    setQuizResult(null);
+    setFreehandResult(null);
   };
 
   const handleToggleSimplified = (targetSimplified: boolean) => {
@@ -119,6 +535,18 @@ const App: React.FC = () => {
     setInputText((prev) => converter(prev));
   };
 
+  const handleClearCache = async () => {
+    if (!window.confirm("確定要清除解析與語音快取嗎？之後會重新向 API 取得資料。"))
+      return;
+    try {
+      await clearAllCaches();
+      alert("快取已清除");
+    } catch (error) {
+      console.error("Clear Cache Error:", error);
+      alert("清除快取失敗");
+    }
+  };
+
   const handleNext = () => {
     if (currentIndex < characters.length - 1) {
       setCurrentIndex((prev) => prev + 1);
@@ -131,46 +559,114 @@ const App: React.FC = () => {
     }
   };
 
-  const playPronunciation = async () => {
-    if (isSpeaking || !currentChar) return;
+  // interrupt: 停止正在播放的語音後再唸 (聽寫換字時的題目不能被略過)
+  const speakText = async (text: string, interrupt = false) => {
+    if ((isSpeaking && !interrupt) || !text) return;
+    if (interrupt) stopSpeech();
+    const request = ++speechRequestRef.current;
     setIsSpeaking(true);
 
     try {
-      if (useCloudVoice) {
-        // 雲端方案：使用 Google Cloud TTS
-        // 使用既有的 GEMINI_API_KEY (需在 Google Cloud Console 啟用 Cloud Text-to-Speech API)
-        const apiKey = process.env.API_KEY || "";
-        if (!apiKey) {
-          alert("請確認 .env 已設定 API_KEY (Gemini/Google Cloud)");
-          setIsSpeaking(false);
-          return;
-        }
-        await playCloudTTS(currentChar, apiKey, isSimplified);
+      const { playback } = await speak(text, speechProvider, {
+        isSimplified,
+        voiceId: selectedVoiceId,
+        rate: 0.6, // 單字稍微放慢語速
+      });
+      playbackRef.current = playback;
+      await playback.finished;
+    } catch (error: any) {
+      console.error("Pronunciation Error:", error);
+      alert(error.message || "無法播放語音");
+    } finally {
+      if (speechRequestRef.current === request) {
+        playbackRef.current = null;
         setIsSpeaking(false);
-      } else {
-        // 本地方案：使用瀏覽器內建語音
-        const utterance = new SpeechSynthesisUtterance(currentChar);
-        utterance.lang = isSimplified ? "zh-CN" : "zh-TW";
-        if (selectedVoice) {
-          utterance.voice = selectedVoice;
-        }
-        utterance.rate = 0.6; // 稍微放慢語速
-
-        utterance.onend = () => setIsSpeaking(false);
-        utterance.onerror = (e) => {
-          console.error("TTS Error:", e);
-          setIsSpeaking(false);
-        };
-
-        window.speechSynthesis.cancel();
-        window.speechSynthesis.speak(utterance);
       }
-    } catch (error) {
-      console.error("Pronunciation Error:", error);
-      setIsSpeaking(false);
     }
   };
 
+  // 朗讀全文或目前的詞，並依朗讀位置標示導覽列中的字
+  const readAloud = async (scope: "word" | "text") => {
+    // 朗讀中 (或語音下載中) 再按一次即停止
+    if (isSpeaking) {
+      stopSpeech();
+      return;
+    }
+
+    const segment = findWordAt(wordSegments, currentIndex);
+    const text = scope === "text" ? activeText : currentWord;
+    const baseIndex = scope === "text" ? 0 : segment?.start ?? currentIndex;
+    // 原文的字元位置 → 導覽列索引 (空白為 -1)
+    let navIndex = baseIndex;
+    const offsets = text.split("").map((char) => (/\s/.test(char) ? -1 : navIndex++));
+    const handleBoundary = (boundary: SpeechBoundary) => {
+      const indices = offsets
+        .slice(boundary.start, Math.max(boundary.end, boundary.start + 1))
+        .filter((i) => i >= 0);
+      if (indices.length > 0) {
+        setReadingRange({ start: indices[0], end: indices[indices.length - 1] + 1 });
+      }
+    };
+
+    const request = ++speechRequestRef.current;
+    setIsSpeaking(true);
+    setReadingScope(scope);
+    try {
+      const { playback } = await speak(text, speechProvider, {
+        isSimplified,
+        voiceId: selectedVoiceId,
+        rate: 0.8,
+        onBoundary: handleBoundary,
+      });
+      playbackRef.current = playback;
+      await playback.finished;
+    } catch (error: any) {
+      console.error("Read Aloud Error:", error);
+      alert(error.message || "無法播放語音");
+    } finally {
+      if (speechRequestRef.current === request) {
+        playbackRef.current = null;
+        setIsSpeaking(false);
+      }
+      setReadingScope(null);
+      setReadingRange(null);
+    }
+  };
+
+  // 換了練習文字就停止朗讀
+  useEffect(() => () => playbackRef.current?.stop(), [activeText]);
+
+  // 朗讀長文時讓正在唸的字保持在導覽列可見範圍內
+  useEffect(() => {
+    if (!readingRange) return;
+    document
+      .querySelector(`[data-nav-index="${readingRange.start}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [readingRange]);
+
+  const playPronunciation = () =>
+    speakText(isDictation ? getDictationPrompt(currentChar, currentWord) : currentChar);
+
+  // 換字、換文字或開啟聽寫時重新隱藏並自動唸出題目
+  useEffect(() => {
+    setRevealedIndices(new Set());
+  }, [activeText, isDictation]);
+
+  useEffect(() => {
+    if (isCharHidden) speakText(getDictationPrompt(currentChar, currentWord), true);
+  }, [isCharHidden, currentIndex, currentChar, currentWord]);
+
+  const handleDemoProgress = useCallback((completed: number, total: number) => {
+    setDemoStroke(completed);
+    setDemoStrokeTotal(total);
+  }, []);
+
+  // 上一筆 / 下一筆 / 點選筆順分解時暫停在指定筆劃
+  const handleDemoSeek = (completed: number) => {
+    setIsDemoPlaying(false);
+    setDemoStroke(Math.max(0, Math.min(demoStrokeTotal, completed)));
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 flex flex-col font-sans">
       {/* Top Navigation Bar */}
@@ -200,46 +696,50 @@ const App: React.FC = () => {
             </p>
           </div>
 
+          <ProfileSwitcher
+            profiles={profileStore.profiles}
+            activeId={profileStore.activeId}
+            onSwitch={handleSwitchProfile}
+            onCreate={handleCreateProfile}
+            onRename={handleRenameProfile}
+            onDelete={handleDeleteProfile}
+          />
+
           {/* 繁簡切換按鈕 */}
           <div className="flex items-center gap-2">
-            {/* Voice Selector */}
+            {/* Voice Selector：語音來源與本地語音 */}
             <div className="relative group flex items-center bg-slate-100 rounded-lg p-1 gap-1">
-              <button
-                onClick={() => setUseCloudVoice(!useCloudVoice)}
-                className={`p-1.5 rounded-md transition-all flex items-center gap-1 ${
-                  useCloudVoice
-                    ? "bg-white text-indigo-600 shadow-sm"
-                    : "text-slate-400 hover:text-slate-600"
-                }`}
-                title={
-                  useCloudVoice
-                    ? "使用雲端語音 (高品質/一致)"
-                    : "使用本地語音 (快速/免費)"
-                }
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  width="16"
-                  height="16"
-                  viewBox="0 0 24 24"
-                  fill="none"
-                  stroke="currentColor"
-                  strokeWidth="2"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                >
-                  {useCloudVoice ? (
-                    <path d="M17.5 19c0-1.7-1.3-3-3-3h-11c-1.7 0-3 1.3-3 3 .4 0 .8-.1 1.1-.2 1.4-.5 2.5-1.6 3-3 .5 1.4 1.6 2.5 3 3 .4.1.8.2 1.1.2h5.8c.3 0 .7-.1 1.1-.2 1.4-.5 2.5-1.6 3-3 .5 1.4 1.6 2.5 3 3z" />
-                  ) : (
-                    <path d="M12 6v13M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07" />
-                  )}
-                </svg>
-                <span className="text-xs font-bold hidden lg:block">
-                  {useCloudVoice ? "雲端" : "本地"}
-                </span>
-              </button>
+              {getSpeechProviders().map((provider) => {
+                const isAvailable = provider.isAvailable();
+                return (
+                  <button
+                    key={provider.name}
+                    onClick={() => setSpeechProvider(provider.name)}
+                    disabled={!isAvailable}
+                    className={`px-2 py-1 rounded-md text-xs font-bold transition-all disabled:opacity-30 ${
+                      speechProvider === provider.name
+                        ? "bg-white text-indigo-600 shadow-sm"
+                        : "text-slate-400 hover:text-slate-600"
+                    }`}
+                    title={
+                      !isAvailable
+                        ? provider.capabilities.requiresApiKey
+                          ? "請在 .env 設定 API_KEY"
+                          : "此瀏覽器不支援"
+                        : provider.name === "web"
+                        ? "使用本地語音 (快速/免費)"
+                        : provider.name === "cloud"
+                        ? "使用 Google Cloud TTS (高品質/一致)"
+                        : "使用 Gemini 語音 (自然，但較慢)"
+                    }
+                  >
+                    {provider.label}
+                  </button>
+                );
+              })}
 
-              {!useCloudVoice && (
+              {getSpeechProvider(speechProvider).capabilities.voiceSelection &&
+                voices.length > 0 && (
                 <div className="relative group/list">
                   <button className="p-1.5 rounded-md hover:bg-white text-slate-400 hover:text-indigo-600 transition-colors">
                     <svg
@@ -260,24 +760,19 @@ const App: React.FC = () => {
                     <p className="text-[10px] font-bold text-slate-400 px-2 mb-1 uppercase">
                       選擇本地發音
                     </p>
-                    {voices
-                      .filter((v) => v.lang.startsWith("zh"))
-                      .map((voice) => (
-                        <button
-                          key={voice.name}
-                          onClick={() => setSelectedVoice(voice)}
-                          className={`w-full text-left px-2 py-1.5 rounded-lg text-xs truncate ${
-                            selectedVoice?.name === voice.name
-                              ? "bg-indigo-50 text-indigo-600 font-bold"
-                              : "text-slate-600 hover:bg-slate-50"
-                          }`}
-                        >
-                          {voice.name
-                            .replace("Microsoft", "")
-                            .replace("Google", "")
-                            .trim()}
-                        </button>
-                      ))}
+                    {voices.map((voice) => (
+                      <button
+                        key={voice.id}
+                        onClick={() => setVoiceName(voice.id)}
+                        className={`w-full text-left px-2 py-1.5 rounded-lg text-xs truncate ${
+                          selectedVoiceId === voice.id
+                            ? "bg-indigo-50 text-indigo-600 font-bold"
+                            : "text-slate-600 hover:bg-slate-50"
+                        }`}
+                      >
+                        {voice.name}
+                      </button>
+                    ))}
                   </div>
                 </div>
               )}
@@ -305,6 +800,28 @@ const App: React.FC = () => {
                 簡体
               </button>
             </div>
+
+            <button
+              onClick={handleClearCache}
+              className="p-2 rounded-lg bg-slate-100 text-slate-400 hover:text-rose-500 transition-colors"
+              title="清除快取"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M3 6h18" />
+                <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6" />
+                <path d="M8 6V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2" />
+              </svg>
+            </button>
           </div>
         </div>
 
@@ -324,6 +841,21 @@ const App: React.FC = () => {
               >
                 更新
               </button>
+              <button
+                onClick={() => setShowLessons(true)}
+                className="bg-slate-50 border border-slate-200 text-slate-600 px-4 py-2 rounded-xl text-sm font-bold hover:bg-white active:scale-95 transition-all whitespace-nowrap"
+                title="從課程庫選擇詞語表"
+              >
+                課程庫
+              </button>
+              <button
+                onClick={handleStartReview}
+                disabled={dueCards.length === 0}
+                className="bg-amber-50 border border-amber-200 text-amber-700 px-4 py-2 rounded-xl text-sm font-bold hover:bg-amber-100 active:scale-95 transition-all whitespace-nowrap disabled:opacity-40 disabled:active:scale-100"
+                title="載入今日到期需要複習的字"
+              >
+                今日複習 ({dueCards.length})
+              </button>
             </div>
           </div>
 
@@ -346,6 +878,113 @@ const App: React.FC = () => {
             </svg>
             {isDemoCompact ? "並排示範" : "迷你示範"}
           </button>
+
+          <button
+            onClick={() => setShowWorksheet(true)}
+            className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-white transition-all flex items-center gap-2 whitespace-nowrap"
+            title="產生可列印的練習單"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M6 9V2h12v7" />
+              <path d="M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2" />
+              <rect width="12" height="8" x="6" y="14" />
+            </svg>
+            練習單
+          </button>
+
+          <button
+            onClick={() => setShowAttemptLog(true)}
+            className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-white transition-all flex items-center gap-2 whitespace-nowrap"
+            title="重播、匯出或匯入書寫紀錄"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+              <path d="M3 3v5h5" />
+              <path d="M12 7v5l3 3" />
+            </svg>
+            書寫紀錄
+          </button>
+
+          <button
+            onClick={() => setShowDashboard(true)}
+            className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-white transition-all flex items-center gap-2 whitespace-nowrap"
+            title="查看每日練習、連續天數與常錯的字"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M3 3v18h18" />
+              <path d="M7 16v-4" />
+              <path d="M12 16V8" />
+              <path d="M17 16v-6" />
+            </svg>
+            學習統計
+          </button>
+
+          <button
+            onClick={() => setShowExport(true)}
+            className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-white transition-all flex items-center gap-2 whitespace-nowrap"
+            title="匯出 CSV / xAPI，或傳送到 LRS"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+              <path d="m7 10 5 5 5-5" />
+              <path d="M12 15V3" />
+            </svg>
+            匯出
+          </button>
+
+          <button
+            onClick={() => setShowExam(true)}
+            disabled={characters.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-xs font-bold hover:bg-indigo-700 disabled:opacity-40 transition-all flex items-center gap-2 whitespace-nowrap"
+            title="以目前文字進行限時測驗，不顯示外框與示範"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <circle cx="12" cy="13" r="8" />
+              <path d="M12 9v4l2 2" />
+              <path d="M9 2h6" />
+            </svg>
+            測驗
+          </button>
         </div>
       </header>
 
@@ -377,8 +1016,12 @@ const App: React.FC = () => {
                 </button>
                 <div className="flex flex-col items-center">
                   <div className="flex items-center gap-3">
-                    <h2 className="text-4xl font-bold text-slate-800 leading-none">
-                      {currentChar}
+                    <h2
+                      className={`text-4xl font-bold leading-none ${
+                        isCharHidden ? "text-slate-300" : "text-slate-800"
+                      }`}
+                    >
+                      {isCharHidden ? HIDDEN_CHAR : currentChar}
                     </h2>
                     <button
                       onClick={playPronunciation}
@@ -388,7 +1031,7 @@ const App: React.FC = () => {
                           ? "bg-indigo-100 text-indigo-600 animate-pulse"
                           : "bg-slate-50 text-indigo-600 hover:bg-indigo-50 active:scale-90"
                       }`}
-                      title="發音"
+                      title={isDictation ? "再唸一次" : "發音"}
                     >
                       {isSpeaking ? (
                         <svg
@@ -426,6 +1069,74 @@ const App: React.FC = () => {
                   <span className="text-[10px] font-bold text-indigo-500 tracking-widest mt-1 block uppercase">
                     Progress {currentIndex + 1} / {characters.length}
                   </span>
+                  {prefetchProgress && (
+                    <div
+                      className="mt-1 flex items-center gap-1.5"
+                      title="正在預先載入整段文字的解析"
+                    >
+                      <div className="h-1 w-16 bg-slate-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-indigo-400 transition-all"
+                          style={{
+                            width: `${(prefetchProgress.done / prefetchProgress.total) * 100}%`,
+                          }}
+                        />
+                      </div>
+                      <span className="text-[10px] text-slate-400">
+                        解析 {prefetchProgress.done} / {prefetchProgress.total}
+                      </span>
+                    </div>
+                  )}
+                  <div className="flex gap-1 mt-2">
+                    {(["word", "text"] as const).map((scope) => (
+                      <button
+                        key={scope}
+                        onClick={() => readAloud(scope)}
+                        disabled={isSpeaking && readingScope !== scope}
+                        className={`px-2 py-0.5 rounded-md text-[10px] font-bold transition-all disabled:opacity-30 ${
+                          readingScope === scope
+                            ? "bg-amber-100 text-amber-700"
+                            : "bg-slate-50 text-slate-500 hover:text-indigo-600"
+                        }`}
+                        title={
+                          scope === "word"
+                            ? "唸出目前的字所在的詞，聲調較自然"
+                            : "朗讀整段練習文字並標示正在唸的字"
+                        }
+                      >
+                        {readingScope === scope
+                          ? "停止"
+                          : scope === "word"
+                          ? "讀詞"
+                          : "朗讀全文"}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex gap-1 mt-1">
+                    {(Object.keys(RUBY_MODE_LABELS) as RubyMode[]).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setRubyMode(mode)}
+                        className={`px-2 py-0.5 rounded-md text-[10px] font-bold transition-all ${
+                          rubyMode === mode
+                            ? "bg-indigo-50 text-indigo-600"
+                            : "bg-slate-50 text-slate-400 hover:text-indigo-600"
+                        }`}
+                        title="導覽列的讀音標注"
+                      >
+                        {RUBY_MODE_LABELS[mode]}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setShowReadingView(true)}
+                      // 聽寫時整段文字會洩漏答案
+                      disabled={characters.length === 0 || isDictation}
+                      className="px-2 py-0.5 rounded-md text-[10px] font-bold bg-slate-50 text-slate-500 hover:text-indigo-600 transition-all disabled:opacity-30"
+                      title="以大字與標注閱讀整段文字"
+                    >
+                      全文閱讀
+                    </button>
+                  </div>
                 </div>
                 <button
                   onClick={handleNext}
@@ -452,14 +1163,34 @@ const App: React.FC = () => {
                 {characters.map((char, idx) => (
                   <button
                     key={idx}
+                    data-nav-index={idx}
                     onClick={() => setCurrentIndex(idx)}
-                    className={`w-8 h-8 rounded-lg text-sm font-bold transition-all flex-shrink-0 ${
+                    className={`rounded-lg text-sm font-bold transition-all flex-shrink-0 ${
+                      rubyMode === "none"
+                        ? "w-8 h-8"
+                        : "min-w-8 min-h-8 px-1.5 pt-2 pb-1 text-base"
+                    } ${
                       currentIndex === idx
                         ? "bg-indigo-600 text-white shadow-md"
+                        : readingRange && idx >= readingRange.start && idx < readingRange.end
+                        ? "bg-amber-100 text-amber-700"
                         : "bg-slate-50 text-slate-400 hover:bg-slate-200"
+                    } ${
+                      readingRange && idx >= readingRange.start && idx < readingRange.end
+                        ? "ring-2 ring-amber-400"
+                        : ""
                     }`}
                   >
-                    {char}
+                    {isDictation && !revealedIndices.has(idx) ? (
+                      HIDDEN_CHAR
+                    ) : (
+                      <RubyChar
+                        char={char}
+                        reading={formatReading(textReadings[idx] ?? null, rubyMode)}
+                        mode={rubyMode}
+                        isVertical={!isSimplified}
+                      />
+                    )}
                   </button>
                 ))}
               </div>
@@ -482,8 +1213,36 @@ const App: React.FC = () => {
                   <path d="M12 8h.01" />
                 </svg>
                 當前文字解析
+                <div className="ml-auto flex bg-white/70 p-0.5 rounded-md normal-case tracking-normal">
+                  {(["char", "word"] as const).map((tab) => (
+                    <button
+                      key={tab}
+                      onClick={() => setInsightsTab(tab)}
+                      className={`px-2 py-0.5 rounded text-[10px] font-bold transition-all ${
+                        insightsTab === tab
+                          ? "bg-indigo-600 text-white"
+                          : "text-indigo-400 hover:text-indigo-600"
+                      }`}
+                    >
+                      {tab === "char"
+                        ? "字"
+                        : `詞${currentWord.length > 1 && !isCharHidden ? `・${currentWord}` : ""}`}
+                    </button>
+                  ))}
+                </div>
               </h3>
-              {isLoadingInsights ? (
+              {isCharHidden ? (
+                <p className="text-[10px] text-slate-400 text-center py-2 italic">
+                  聽寫中，寫完或揭曉後顯示解析
+                </p>
+              ) : insightsTab === "word" ? (
+                <WordInsightsPanel
+                  word={currentWord}
+                  currentChar={currentChar}
+                  info={wordInsights}
+                  isLoading={isLoadingWordInsights}
+                />
+              ) : isLoadingInsights ? (
                 <div className="space-y-3 animate-pulse">
                   <div className="h-3 bg-indigo-100 rounded w-full"></div>
                   <div className="h-3 bg-indigo-100 rounded w-2/3"></div>
@@ -492,46 +1251,84 @@ const App: React.FC = () => {
               ) : insights ? (
                 <div className="space-y-4 text-sm">
                   <div className="grid grid-cols-2 gap-2">
-                    <div className="bg-white p-2 rounded-lg border border-indigo-100 text-center">
-                      <span className="text-[10px] text-slate-400 block">
-                        拼音
-                      </span>
-                      <span className="font-bold text-indigo-600">
-                        {insights.pinyin || "—"}
-                      </span>
-                    </div>
-                    <div className="bg-white p-2 rounded-lg border border-indigo-100 text-center">
-                      <span className="text-[10px] text-slate-400 block">
-                        注音
-                      </span>
-                      <span className="font-bold text-indigo-600">
-                        {insights.zhuyin || "—"}
-                      </span>
-                    </div>
-                    <div className="bg-white p-2 rounded-lg border border-indigo-100 text-center">
-                      <span className="text-[10px] text-slate-400 block">
-                        部首
-                      </span>
-                      <span className="font-bold text-indigo-600">
-                        {insights.radical || "—"}
-                      </span>
-                    </div>
-                    <div className="bg-white p-2 rounded-lg border border-indigo-100 text-center">
-                      <span className="text-[10px] text-slate-400 block">
-                        筆劃
-                      </span>
-                      <span className="font-bold text-indigo-600">
-                        {insights.strokeCount || "—"}
-                      </span>
-                    </div>
+                    {INSIGHT_FIELDS.map(({ field, label }) => {
+                      const flag = insights.flags?.[field];
+                      return (
+                        <div
+                          key={field}
+                          className={`bg-white p-2 rounded-lg border text-center ${
+                            flag === "untrusted"
+                              ? "border-dashed border-slate-300"
+                              : flag === "corrected"
+                              ? "border-amber-200"
+                              : "border-indigo-100"
+                          }`}
+                          title={
+                            flag === "untrusted"
+                              ? "資料無法驗證，僅供參考"
+                              : flag === "corrected"
+                              ? "資料已自動校正"
+                              : undefined
+                          }
+                        >
+                          <span className="text-[10px] text-slate-400 block">
+                            {label}
+                            {flag === "corrected" && (
+                              <span className="text-amber-500 ml-1">已校正</span>
+                            )}
+                            {flag === "untrusted" && (
+                              <span className="text-slate-400 ml-1">?</span>
+                            )}
+                          </span>
+                          <span
+                            className={`font-bold ${
+                              flag === "untrusted"
+                                ? "text-slate-400 italic"
+                                : "text-indigo-600"
+                            }`}
+                          >
+                            {insights[field] || "—"}
+                          </span>
+                        </div>
+                      );
+                    })}
                   </div>
-                  <p className="text-slate-600 leading-relaxed text-xs">
-                    {insights.meaning}
+                  <p
+                    className={`leading-relaxed text-xs ${
+                      insights.flags?.meaning === "untrusted"
+                        ? "text-slate-400 italic"
+                        : "text-slate-600"
+                    }`}
+                  >
+                    {insights.meaning || insights.gloss}
                   </p>
+                  {insights.examples && insights.examples.length > 0 && (
+                    <ExampleWords
+                      examples={insights.examples}
+                      isSpeaking={isSpeaking}
+                      onSpeak={speakText}
+                      onPractice={loadPracticeText}
+                    />
+                  )}
+                  {insights.pinyin && (
+                    <div className="pt-3 border-t border-indigo-100">
+                      <h4 className="text-[10px] font-bold text-indigo-900 uppercase tracking-widest mb-2">
+                        發音練習
+                      </h4>
+                      <PronunciationPanel
+                        key={currentChar}
+                        char={currentChar}
+                        pinyin={insights.pinyin}
+                        isSimplified={isSimplified}
+                      />
+                    </div>
+                  )}
                 </div>
               ) : (
                 <p className="text-[10px] text-slate-400 text-center py-2 italic">
-                  {process.env.API_KEY ? "暫無解析資料" : "請設定 API Key"}
+                  {hasInsightsProvider()
+                    ? "暫無解析資料"
+                    : "請設定 API Key 或安裝本地字典"}
                 </p>
               )}
             </div>
@@ -548,13 +1345,113 @@ const App: React.FC = () => {
               } w-full flex justify-center lg:justify-start`}
             >
               <div className="flex flex-col items-center gap-4 w-full">
-                <WritingBoard
-                  key={`viewer-${currentChar}`}
-                  character={currentChar}
-                  role="viewer"
-                  speed={speed}
-                  size={isDemoCompact ? 180 : 350}
-                />
+                {isCharHidden ? (
+                  <div
+                    className="flex flex-col items-center justify-center gap-4 bg-white rounded-2xl border border-dashed border-slate-200 text-slate-400"
+                    style={{
+                      width: isDemoCompact ? 180 : 350,
+                      height: isDemoCompact ? 180 : 350,
+                    }}
+                  >
+                    <span className="text-6xl font-bold text-slate-200">
+                      {HIDDEN_CHAR}
+                    </span>
+                    <p className="text-xs font-bold">聽寫中，示範已隱藏</p>
+                    <button
+                      onClick={revealCurrent}
+                      className="px-4 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-500 hover:text-indigo-600 transition-colors"
+                    >
+                      揭曉答案
+                    </button>
+                  </div>
+                ) : (
+                  <>
+                  <WritingBoard
+                    key={`viewer-${currentChar}`}
+                    character={currentChar}
+                    role="viewer"
+                    speed={speed}
+                    size={isDemoCompact ? 180 : 350}
+                    highlightRadical={highlightRadical}
+                    highlightComponents={highlightComponents}
+                    grid={gridSettings}
+                    isPlaying={isDemoPlaying}
+                    strokeIndex={demoStroke}
+                    onStrokeProgress={handleDemoProgress}
+                  />
+
+                  {/* 播放控制 */}
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleDemoSeek(demoStroke - 1)}
+                      disabled={demoStroke === 0}
+                      className="p-2 rounded-full bg-white border border-slate-100 shadow-sm text-slate-500 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+                      title="上一筆"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="16"
+                        height="16"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2.5"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      >
+                        <path d="m17 18-6-6 6-6" />
+                        <path d="M7 6v12" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => setIsDemoPlaying(!isDemoPlaying)}
+                      className="p-3 rounded-full bg-indigo-600 text-white shadow-md hover:bg-indigo-700 active:scale-90 transition-all"
+                      title={isDemoPlaying ? "暫停" : "播放"}
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="16"
+                        height="16"
+                        viewBox="0 0 24 24"
+                        fill="currentColor"
+                      >
+                        {isDemoPlaying ? (
+                          <>
+                            <rect x="6" y="4" width="4" height="16" rx="1" />
+                            <rect x="14" y="4" width="4" height="16" rx="1" />
+                          </>
+                        ) : (
+                          <path d="M7 4v16l13-8z" />
+                        )}
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => handleDemoSeek(demoStroke + 1)}
+                      disabled={demoStrokeTotal === 0 || demoStroke >= demoStrokeTotal}
+                      className="p-2 rounded-full bg-white border border-slate-100 shadow-sm text-slate-500 hover:text-indigo-600 disabled:opacity-30 transition-colors"
+                      title="下一筆"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        width="16"
+                        height="16"
+                        viewBox="0 0 24 24"
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth="2.5"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      >
+                        <path d="m7 18 6-6-6-6" />
+                        <path d="M17 6v12" />
+                      </svg>
+                    </button>
+                    <span className="text-xs font-bold text-slate-400 w-14 text-center">
+                      {demoStroke} / {demoStrokeTotal}
+                    </span>
+                  </div>
+                  </>
+                )}
 
                 {/* Speed Control - Moved here */}
                 <div className="w-full max-w-[350px] bg-white p-4 rounded-xl border border-slate-100 shadow-sm">
@@ -572,9 +1469,47 @@ const App: React.FC = () => {
                     onChange={(e) => setSpeed(parseFloat(e.target.value))}
                     className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
                   />
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => setHighlightRadical(!highlightRadical)}
+                      className={`flex-1 px-2 py-1 rounded-lg text-xs font-bold transition-all ${
+                        highlightRadical
+                          ? "bg-rose-50 text-rose-600"
+                          : "bg-slate-50 text-slate-400 hover:text-slate-600"
+                      }`}
+                      title="以顏色標示部首筆劃"
+                    >
+                      部首{insights?.radical && !isCharHidden ? `・${insights.radical}` : ""}
+                    </button>
+                    <button
+                      onClick={() => setHighlightComponents(!highlightComponents)}
+                      className={`flex-1 px-2 py-1 rounded-lg text-xs font-bold transition-all ${
+                        highlightComponents
+                          ? "bg-sky-50 text-sky-600"
+                          : "bg-slate-50 text-slate-400 hover:text-slate-600"
+                      }`}
+                      title="以底色標示各部件 (需要含部件資料的筆順資料包)"
+                    >
+                      部件
+                    </button>
+                  </div>
                 </div>
 
-                {!isDemoCompact && (
+                {!isCharHidden && (
+                  <StrokeOrderStrip
+                    character={currentChar}
+                    currentStroke={demoStroke}
+                    onSelectStroke={handleDemoSeek}
+                    frameSize={isDemoCompact ? 32 : 48}
+                  />
+                )}
+
+                <GridSettingsPanel
+                  settings={gridSettings}
+                  onChange={setGridSettings}
+                />
+
+                {!isDemoCompact && !isCharHidden && (
                   <div className="text-center">
                     <p className="text-sm font-bold text-slate-400 italic">
                       「觀摩正確筆順」
@@ -590,16 +1525,61 @@ const App: React.FC = () => {
             </div>
 
             {/* Practice Panel */}
-            <div className="flex-1 flex justify-center">
-              <div className="flex flex-col items-center gap-4 w-full">
+            <div className="flex-1 flex flex-col xl:flex-row xl:items-start justify-center gap-6">
+              <div className="flex flex-col items-center gap-4 w-full xl:w-auto">
+                <div className="flex items-center gap-2">
+                  <div className="flex bg-slate-100 p-1 rounded-xl">
+                    <button
+                      onClick={() => setPracticeMode("quiz")}
+                      className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                        practiceMode === "quiz"
+                          ? "bg-white text-indigo-600 shadow-sm"
+                          : "text-slate-400 hover:text-slate-600"
+                      }`}
+                    >
+                      筆順測驗
+                    </button>
+                    <button
+                      onClick={() => setPracticeMode("freehand")}
+                      className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                        practiceMode === "freehand"
+                          ? "bg-white text-indigo-600 shadow-sm"
+                          : "text-slate-400 hover:text-slate-600"
+                      }`}
+                      title="保留自己的筆跡，寫完後再逐筆評分"
+                    >
+                      自由書寫
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setIsDictation(!isDictation)}
+                    className={`px-4 py-2.5 rounded-xl text-xs font-bold transition-all ${
+                      isDictation
+                        ? "bg-indigo-600 text-white shadow-sm"
+                        : "bg-slate-100 text-slate-400 hover:text-slate-600"
+                    }`}
+                    title="隱藏目前的字，只播放讀音，寫完後再揭曉"
+                  >
+                    聽寫
+                  </button>
+                </div>
                 <WritingBoard
-                  key={`quiz-${currentChar}`}
+                  key={`${practiceMode}-${isDictation}-${currentChar}`}
                   character={currentChar}
-                  role="quiz"
+                  role={practiceMode}
                   speed={speed}
                   size={boardSize}
+                  onQuizResult={handleQuizResult}
+                  onFreehandResult={handleFreehandResult}
+                  onAttempt={handleAttempt}
+                  highlightRadical={highlightRadical && !isCharHidden}
+                  highlightComponents={highlightComponents && !isCharHidden}
+                  grid={gridSettings}
+                  showOutline={!isDictation}
+                  hintAfterMisses={isDictation ? false : HINT_AFTER_MISSES}
                   onComplete={() => {
-                    if (currentIndex < characters.length - 1) {
+                    // 聽寫時停在揭曉的字，讓學生對照後再自行前往下一個字
+                    if (!isDictation && currentIndex < characters.length - 1) {
                       setTimeout(handleNext, 1200);
                     }
                   }}
@@ -611,10 +1591,99 @@ const App: React.FC = () => {
                   </p>
                 </div>
               </div>
+
+              {/* 測驗成績卡 */}
+              {practiceMode === "quiz" ? (
+                <QuizScoreCard result={quizResult} />
+              ) : (
+                <FreehandScoreCard result={freehandResult} />
+              )}
             </div>
           </div>
         </div>
       </main>
+
+      {showWorksheet && (
+        <WorksheetDialog
+          text={activeText}
+          isSimplified={isSimplified}
+          grid={gridSettings}
+          onClose={() => setShowWorksheet(false)}
+        />
+      )}
+
+      {showLessons && (
+        <LessonLibraryDialog
+          currentText={activeText}
+          onLoad={(lesson) => {
+            loadPracticeText(lesson.text, lesson.id);
+            setShowLessons(false);
+          }}
+          onClose={() => setShowLessons(false)}
+        />
+      )}
+
+      {showDashboard && (
+        <ProgressDashboard
+          profile={activeProfile}
+          lessons={getAllLessons(loadUserLessons())}
+          onPractice={(text) => {
+            loadPracticeText(text);
+            setShowDashboard(false);
+          }}
+          onClose={() => setShowDashboard(false)}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          profiles={profileStore.profiles}
+          activeId={profileStore.activeId}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showExam && (
+        <ExamSession
+          characters={characters}
+          prompts={characters.map((char, i) =>
+            getDictationPrompt(char, findWordAt(wordSegments, i)?.word || char)
+          )}
+          grid={gridSettings}
+          size={boardSize}
+          onQuizResult={handleExamResult}
+          onAttempt={handleAttempt}
+          onSpeak={(text) => speakText(text, true)}
+          onExit={() => setShowExam(false)}
+        />
+      )}
+
+      {showReadingView && (
+        <ReadingView
+          text={activeText}
+          readings={textReadings}
+          mode={rubyMode}
+          isSimplified={isSimplified}
+          currentIndex={currentIndex}
+          highlightRange={readingRange}
+          onModeChange={setRubyMode}
+          onSelect={(index) => {
+            setCurrentIndex(index);
+            setShowReadingView(false);
+          }}
+          onClose={() => setShowReadingView(false)}
+        />
+      )}
+
+      {showAttemptLog && (
+        <AttemptLogDialog
+          profileId={profileStore.activeId}
+          currentChar={currentChar}
+          grid={gridSettings}
+          speed={speed}
+          onClose={() => setShowAttemptLog(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,204 @@
+import React, { useEffect, useRef, useState } from "react";
+import WritingBoard from "./WritingBoard";
+import AttemptReplay from "./AttemptReplay";
+import { GridSettings, WritingAttempt } from "../types";
+import {
+  deleteAttempt,
+  downloadAttempts,
+  importAttempts,
+  listAttempts,
+} from "../services/attemptLogService";
+
+interface AttemptLogDialogProps {
+  profileId: string;
+  currentChar: string;
+  grid: GridSettings;
+  speed: number;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString("zh-TW", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const AttemptLogDialog: React.FC<AttemptLogDialogProps> = ({
+  profileId,
+  currentChar,
+  grid,
+  speed,
+  onClose,
+}) => {
+  const [attempts, setAttempts] = useState<WritingAttempt[]>([]);
+  const [onlyCurrent, setOnlyCurrent] = useState(true);
+  const [selected, setSelected] = useState<WritingAttempt | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    const list = await listAttempts(profileId, onlyCurrent ? currentChar : undefined);
+    setAttempts(list);
+    setSelected((prev) => list.find((a) => a.id === prev?.id) ?? list[0] ?? null);
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [profileId, onlyCurrent, currentChar]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const count = await importAttempts(await file.text(), profileId);
+      setMessage(`已匯入 ${count} 筆書寫紀錄`);
+      setOnlyCurrent(false);
+      await refresh();
+    } catch (error: any) {
+      setMessage(error.message);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    await deleteAttempt(selected.id, profileId);
+    await refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h3 className="text-sm font-bold text-slate-700">書寫紀錄</h3>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-slate-100 text-xs font-bold text-slate-500">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={onlyCurrent}
+              onChange={(e) => setOnlyCurrent(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            只顯示「{currentChar}」
+          </label>
+          {message && <span className="text-indigo-600">{message}</span>}
+          <div className="ml-auto flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl hover:bg-white transition-all"
+            >
+              匯入 JSON
+            </button>
+            <button
+              onClick={() =>
+                downloadAttempts(
+                  attempts,
+                  `zenscribe-${onlyCurrent ? currentChar : "attempts"}.json`
+                )
+              }
+              disabled={attempts.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-40 transition-all"
+            >
+              匯出 JSON
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+          <ul className="md:w-64 max-h-48 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-slate-100 p-3 space-y-1 text-xs">
+            {attempts.length === 0 && (
+              <li className="text-center text-slate-400 italic py-6">
+                尚無書寫紀錄
+              </li>
+            )}
+            {attempts.map((attempt) => (
+              <li key={attempt.id}>
+                <button
+                  onClick={() => setSelected(attempt)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-all ${
+                    selected?.id === attempt.id
+                      ? "bg-indigo-50 text-indigo-700"
+                      : "hover:bg-slate-50 text-slate-600"
+                  }`}
+                >
+                  <span className="text-xl font-bold">{attempt.char}</span>
+                  <span className="flex-1">
+                    <span className="block font-bold">
+                      {attempt.mode === "quiz" ? "筆順測驗" : "自由書寫"}
+                      {!attempt.isComplete && (
+                        <span className="ml-1 text-slate-400">(未完成)</span>
+                      )}
+                    </span>
+                    <span className="text-[10px] text-slate-400">
+                      {formatTime(attempt.startedAt)}
+                    </span>
+                  </span>
+                  {attempt.score !== undefined && (
+                    <span className="font-bold">{attempt.score}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 overflow-y-auto bg-slate-50 p-6">
+            {selected ? (
+              <div className="flex flex-col items-center gap-4">
+                <div className="flex flex-wrap justify-center gap-6">
+                  <div className="flex flex-col items-center gap-2">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                      學生筆跡 · {selected.strokes.length} 筆
+                    </span>
+                    <AttemptReplay key={selected.id} attempt={selected} grid={grid} />
+                  </div>
+                  <div className="flex flex-col items-center gap-2">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                      標準筆順
+                    </span>
+                    <WritingBoard
+                      key={`replay-${selected.char}`}
+                      character={selected.char}
+                      role="viewer"
+                      speed={speed}
+                      size={240}
+                      grid={grid}
+                    />
+                  </div>
+                </div>
+                <button
+                  onClick={handleDelete}
+                  className="text-xs font-bold text-slate-400 hover:text-rose-500 transition-colors"
+                >
+                  刪除這筆紀錄
+                </button>
+              </div>
+            ) : (
+              <p className="text-center text-xs font-bold text-slate-400 py-12">
+                選擇一筆紀錄以重播
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttemptLogDialog;
@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import PracticeGrid from "./PracticeGrid";
+import { GridSettings, WritingAttempt } from "../types";
+import { getAttemptTimeline } from "../services/attemptLogService";
+import { getStrokeTransform } from "../services/strokeDataService";
+
+const REPLAY_RATES = [1, 2, 4];
+const INK_WIDTH = 68; // 與 WritingBoard 的自由書寫筆跡相同
+
+interface AttemptReplayProps {
+  attempt: WritingAttempt;
+  grid: GridSettings;
+  size?: number;
+}
+
+/**
+ * 依時間戳重播學生的原始筆跡；測驗中判定錯誤的筆劃以紅色顯示
+ */
+const AttemptReplay: React.FC<AttemptReplayProps> = ({
+  attempt,
+  grid,
+  size = 240,
+}) => {
+  const [rate, setRate] = useState(1);
+  const [elapsed, setElapsed] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const elapsedRef = useRef(0);
+  elapsedRef.current = elapsed;
+  const { offsets, duration } = useMemo(
+    () => getAttemptTimeline(attempt),
+    [attempt]
+  );
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    let last = performance.now();
+    let current = elapsedRef.current;
+    const tick = (now: number) => {
+      current = Math.min(duration, current + (now - last) * rate);
+      last = now;
+      setElapsed(current);
+      if (current >= duration) {
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, rate, duration]);
+
+  const handlePlay = () => {
+    if (elapsed >= duration) setElapsed(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div
+        className="relative bg-white rounded-xl border border-slate-100 overflow-hidden"
+        style={{ width: size, height: size }}
+      >
+        <PracticeGrid settings={grid} />
+        <svg className="absolute inset-0" width={size} height={size}>
+          <g transform={getStrokeTransform(size, size * 0.05)}>
+            {attempt.strokes.map((stroke, i) => {
+              const visible = stroke.points.filter(
+                (p) => offsets[i] + p.t <= elapsed
+              );
+              if (visible.length === 0) return null;
+              return (
+                <polyline
+                  key={i}
+                  points={visible.map((p) => `${p.x},${p.y}`).join(" ")}
+                  fill="none"
+                  stroke={stroke.isCorrect === false ? "#e11d48" : "#334155"}
+                  strokeWidth={INK_WIDTH}
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  opacity={stroke.isCorrect === false ? 0.5 : 0.85}
+                />
+              );
+            })}
+          </g>
+        </svg>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-500">
+        <button
+          onClick={handlePlay}
+          className="px-3 py-1 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 transition-all"
+        >
+          {isPlaying ? "暫停" : elapsed >= duration ? "重播" : "播放"}
+        </button>
+        <input
+          type="range"
+          min="0"
+          max={duration}
+          value={elapsed}
+          onChange={(e) => {
+            setIsPlaying(false);
+            setElapsed(Number(e.target.value));
+          }}
+          className="w-24 accent-indigo-600"
+        />
+        {REPLAY_RATES.map((r) => (
+          <button
+            key={r}
+            onClick={() => setRate(r)}
+            className={`px-2 py-1 rounded-lg transition-all ${
+              rate === r
+                ? "bg-indigo-50 text-indigo-600"
+                : "text-slate-400 hover:text-slate-600"
+            }`}
+          >
+            {r}×
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AttemptReplay;
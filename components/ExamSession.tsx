@@ -0,0 +1,388 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import WritingBoard from "./WritingBoard";
+import {
+  ExamItemResult,
+  ExamSettings,
+  GridSettings,
+  QuizResult,
+  WritingAttempt,
+} from "../types";
+import {
+  DEFAULT_EXAM_SETTINGS,
+  HINT_POLICIES,
+  TIME_LIMITS,
+  examItemFromAttempt,
+  examItemFromQuiz,
+  getExamItemScore,
+  summarizeExam,
+} from "../services/examService";
+import { getAccuracyGrade } from "../services/quizService";
+import { loadPreference, savePreference } from "../services/preferencesService";
+
+interface ExamSessionProps {
+  characters: string[];
+  // 每個字的聽寫題目 (見 dictationService)，作答時唸出而不顯示字
+  prompts: string[];
+  grid: GridSettings;
+  size: number;
+  onQuizResult: (result: QuizResult) => void;
+  onAttempt: (attempt: WritingAttempt) => void;
+  onSpeak: (text: string) => void;
+  onExit: () => void;
+}
+
+const STATUS_LABELS: Record<ExamItemResult["status"], string> = {
+  completed: "完成",
+  timeout: "超時",
+  skipped: "略過",
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const ExamSession: React.FC<ExamSessionProps> = ({
+  characters,
+  prompts,
+  grid,
+  size,
+  onQuizResult,
+  onAttempt,
+  onSpeak,
+  onExit,
+}) => {
+  const [phase, setPhase] = useState<"setup" | "running" | "report">("setup");
+  const [settings, setSettings] = useState<ExamSettings>(() =>
+    loadPreference("exam", DEFAULT_EXAM_SETTINGS)
+  );
+  const [index, setIndex] = useState(0);
+  const [items, setItems] = useState<ExamItemResult[]>([]);
+  const [remainingMs, setRemainingMs] = useState(0);
+  const startedAtRef = useRef(0);
+  // 目前這個字是否已經結算，避免寫完與超時同時發生時重複記錄
+  const settledRef = useRef(false);
+  const abortedIndexRef = useRef<number | null>(null);
+
+  const updateSettings = (changes: Partial<ExamSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    savePreference("exam", next);
+  };
+
+  const startItem = (nextIndex: number) => {
+    settledRef.current = false;
+    startedAtRef.current = Date.now();
+    setRemainingMs(settings.timeLimitSec * 1000);
+    setIndex(nextIndex);
+  };
+
+  const handleStart = () => {
+    setItems([]);
+    setPhase("running");
+    startItem(0);
+  };
+
+  const advance = useCallback(() => {
+    if (index + 1 >= characters.length) {
+      setPhase("report");
+    } else {
+      startItem(index + 1);
+    }
+  }, [index, characters.length, settings.timeLimitSec]);
+
+  // 超時或略過：先記下結果，等寫字板卸載送出書寫紀錄後再補上已完成的筆劃
+  const abortItem = useCallback(
+    (status: "timeout" | "skipped") => {
+      if (settledRef.current) return;
+      settledRef.current = true;
+      abortedIndexRef.current = index;
+      setItems((prev) => [
+        ...prev,
+        examItemFromAttempt(
+          characters[index],
+          status,
+          Date.now() - startedAtRef.current
+        ),
+      ]);
+      advance();
+    },
+    [index, characters, advance]
+  );
+
+  const handleQuizResult = (result: QuizResult) => {
+    if (settledRef.current) return;
+    settledRef.current = true;
+    setItems((prev) => [...prev, examItemFromQuiz(result)]);
+    onQuizResult(result);
+    advance();
+  };
+
+  const handleAttempt = (attempt: WritingAttempt) => {
+    onAttempt(attempt);
+    const abortedIndex = abortedIndexRef.current;
+    if (attempt.isComplete || abortedIndex === null) return;
+    abortedIndexRef.current = null;
+    setItems((prev) =>
+      prev.map((item, i) =>
+        i === abortedIndex && item.char === attempt.char && item.status !== "completed"
+          ? examItemFromAttempt(item.char, item.status, item.durationMs, attempt)
+          : item
+      )
+    );
+  };
+
+  // 提前交卷：目前與尚未作答的字都以略過計
+  const finishEarly = () => {
+    if (!window.confirm("確定要交卷嗎？尚未作答的字將以略過計算。")) return;
+    settledRef.current = true;
+    abortedIndexRef.current = index;
+    const elapsed = Date.now() - startedAtRef.current;
+    setItems((prev) => [
+      ...prev,
+      ...characters
+        .slice(prev.length)
+        .map((char, i) => examItemFromAttempt(char, "skipped", i === 0 ? elapsed : 0)),
+    ]);
+    setPhase("report");
+  };
+
+  // 換到下一個字時唸出題目
+  useEffect(() => {
+    if (phase === "running" && prompts[index]) onSpeak(prompts[index]);
+  }, [phase, index]);
+
+  // 倒數計時
+  useEffect(() => {
+    if (phase !== "running" || settings.timeLimitSec === 0) return;
+    const timer = window.setInterval(() => {
+      const remaining =
+        settings.timeLimitSec * 1000 - (Date.now() - startedAtRef.current);
+      setRemainingMs(Math.max(0, remaining));
+      if (remaining <= 0) abortItem("timeout");
+    }, 200);
+    return () => window.clearInterval(timer);
+  }, [phase, settings.timeLimitSec, abortItem]);
+
+  const renderOverlay = (content: React.ReactNode) => (
+    <div className="fixed inset-0 z-50 bg-slate-50 overflow-y-auto flex items-start justify-center p-4 lg:p-8">
+      {content}
+    </div>
+  );
+
+  if (phase === "setup") {
+    return renderOverlay(
+      <div className="w-full max-w-lg mx-auto bg-white rounded-2xl p-8 border border-slate-100 shadow-sm space-y-6">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">測驗模式</h2>
+          <p className="text-xs text-slate-400 mt-1">
+            共 {characters.length} 字，每題只唸出讀音，作答時不顯示示範與成績，全部寫完後產生報告
+          </p>
+        </div>
+        <div className="space-y-4 text-xs font-bold text-slate-500">
+          <label className="flex items-center justify-between gap-4">
+            每字時間限制
+            <select
+              value={settings.timeLimitSec}
+              onChange={(e) =>
+                updateSettings({ timeLimitSec: Number(e.target.value) })
+              }
+              className="border border-slate-200 rounded-lg px-2 py-1"
+            >
+              {TIME_LIMITS.map((sec) => (
+                <option key={sec} value={sec}>
+                  {sec === 0 ? "不限時" : `${sec} 秒`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-4">
+            提示
+            <select
+              value={String(settings.hintAfterMisses)}
+              onChange={(e) =>
+                updateSettings({
+                  hintAfterMisses:
+                    e.target.value === "false" ? false : Number(e.target.value),
+                })
+              }
+              className="border border-slate-200 rounded-lg px-2 py-1"
+            >
+              {HINT_POLICIES.map((policy) => (
+                <option key={String(policy.value)} value={String(policy.value)}>
+                  {policy.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-4">
+            顯示外框
+            <input
+              type="checkbox"
+              checked={settings.showOutline}
+              onChange={(e) => updateSettings({ showOutline: e.target.checked })}
+              className="accent-indigo-600"
+            />
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onExit}
+            className="flex-1 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:bg-white transition-all"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleStart}
+            disabled={characters.length === 0}
+            className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 disabled:opacity-40 transition-all"
+          >
+            開始測驗
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === "report") {
+    const summary = summarizeExam(items);
+    return renderOverlay(
+      <div className="w-full max-w-3xl mx-auto bg-white rounded-2xl p-8 border border-slate-100 shadow-sm space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-bold text-slate-800">測驗報告</h2>
+          <span className="text-xs font-bold text-slate-400">
+            {new Date().toLocaleString("zh-TW")}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+          <div className="bg-slate-50 p-3 rounded-xl">
+            <span className="text-[10px] font-bold text-slate-400 block">總分</span>
+            <span className="text-2xl font-bold text-indigo-600">{summary.score}</span>
+            <span className="text-xs font-bold text-slate-400 ml-1">
+              {getAccuracyGrade(summary.score)}
+            </span>
+          </div>
+          <div className="bg-slate-50 p-3 rounded-xl">
+            <span className="text-[10px] font-bold text-slate-400 block">完成</span>
+            <span className="text-2xl font-bold text-slate-700">
+              {summary.completed} / {summary.total}
+            </span>
+          </div>
+          <div className="bg-slate-50 p-3 rounded-xl">
+            <span className="text-[10px] font-bold text-slate-400 block">
+              筆劃正確率
+            </span>
+            <span className="text-2xl font-bold text-slate-700">
+              {summary.accuracy}%
+            </span>
+          </div>
+          <div className="bg-slate-50 p-3 rounded-xl">
+            <span className="text-[10px] font-bold text-slate-400 block">總時間</span>
+            <span className="text-2xl font-bold text-slate-700">
+              {formatSeconds(summary.totalDurationMs)}
+            </span>
+          </div>
+        </div>
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400 border-b border-slate-100">
+              <th className="py-2 text-left">字</th>
+              <th className="py-2">狀態</th>
+              <th className="py-2">分數</th>
+              <th className="py-2">完成筆劃</th>
+              <th className="py-2">錯誤</th>
+              <th className="py-2">提示</th>
+              <th className="py-2">時間</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item, i) => (
+              <tr key={i} className="border-b border-slate-50 text-center text-slate-600">
+                <td className="py-2 text-left text-xl font-bold text-slate-800">
+                  {item.char}
+                </td>
+                <td
+                  className={`py-2 font-bold ${
+                    item.status === "completed" ? "text-emerald-600" : "text-rose-500"
+                  }`}
+                >
+                  {STATUS_LABELS[item.status]}
+                </td>
+                <td className="py-2 font-bold">{getExamItemScore(item)}</td>
+                <td className="py-2">{item.correctStrokes}</td>
+                <td className="py-2">{item.mistakes}</td>
+                <td className="py-2">{item.quiz?.hintsUsed ?? "—"}</td>
+                <td className="py-2">{formatSeconds(item.durationMs)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => setPhase("setup")}
+            className="flex-1 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:bg-white transition-all"
+          >
+            再考一次
+          </button>
+          <button
+            onClick={onExit}
+            className="flex-1 px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 transition-all"
+          >
+            結束測驗
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isUrgent = settings.timeLimitSec > 0 && remainingMs <= 5000;
+
+  return renderOverlay(
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex items-center gap-6 text-sm font-bold text-slate-500">
+        <span>
+          第 {index + 1} / {characters.length} 字
+        </span>
+        {settings.timeLimitSec > 0 && (
+          <span className={isUrgent ? "text-rose-500 animate-pulse" : "text-indigo-600"}>
+            剩餘 {Math.ceil(remainingMs / 1000)} 秒
+          </span>
+        )}
+      </div>
+      <WritingBoard
+        key={`exam-${index}`}
+        character={characters[index]}
+        role="quiz"
+        speed={1}
+        size={size}
+        grid={grid}
+        showOutline={settings.showOutline}
+        hintAfterMisses={settings.hintAfterMisses}
+        onQuizResult={handleQuizResult}
+        onAttempt={handleAttempt}
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => onSpeak(prompts[index])}
+          className="px-4 py-2 bg-indigo-50 border border-indigo-100 rounded-xl text-xs font-bold text-indigo-600 hover:bg-white transition-all"
+        >
+          再唸一次
+        </button>
+        <button
+          onClick={() => abortItem("skipped")}
+          className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-white transition-all"
+        >
+          略過這個字
+        </button>
+        <button
+          onClick={finishEarly}
+          className="px-4 py-2 text-xs font-bold text-slate-400 hover:text-rose-500 transition-colors"
+        >
+          提前交卷
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExamSession;
@@ -0,0 +1,67 @@
+import React from "react";
+
+interface ExampleWordsProps {
+  examples: string[];
+  isSpeaking: boolean;
+  onSpeak: (word: string) => void;
+  onPractice: (word: string) => void;
+}
+
+// 模型偶爾會附上拼音或解釋，例如「永遠 (yǒngyuǎn)」，只取出中文詞
+const extractWord = (example: string) =>
+  example.match(/\p{Script=Han}+/u)?.[0] || "";
+
+const ExampleWords: React.FC<ExampleWordsProps> = ({
+  examples,
+  isSpeaking,
+  onSpeak,
+  onPractice,
+}) => {
+  const words = [...new Set(examples.map(extractWord).filter(Boolean))];
+  if (words.length === 0) return null;
+
+  return (
+    <div>
+      <span className="text-[10px] text-slate-400 block mb-1">例詞</span>
+      <div className="flex flex-wrap gap-2">
+        {words.map((word) => (
+          <div
+            key={word}
+            className="flex items-center bg-white rounded-lg border border-indigo-100 overflow-hidden"
+          >
+            <button
+              onClick={() => onSpeak(word)}
+              disabled={isSpeaking}
+              className="px-2 py-1 text-xs font-bold text-indigo-600 hover:bg-indigo-50 disabled:opacity-50 transition-colors"
+              title="播放發音"
+            >
+              {word}
+            </button>
+            <button
+              onClick={() => onPractice(word)}
+              className="px-1.5 py-1 border-l border-indigo-100 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+              title="練習這個詞"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="12"
+                height="12"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.5"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="m12 19 7-7 3 3-7 7-3-3Z" />
+                <path d="m18 13-1.5-7.5L2 2l3.5 14.5L13 18l5-5Z" />
+              </svg>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ExampleWords;
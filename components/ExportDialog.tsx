@@ -0,0 +1,194 @@
+import React, { useState } from "react";
+import { LearnerProfile } from "../types";
+import {
+  DEFAULT_LRS_CONFIG,
+  LrsConfig,
+  downloadFile,
+  historyToCsv,
+  historyToStatements,
+  sendStatements,
+} from "../services/exportService";
+import { loadPreference, savePreference } from "../services/preferencesService";
+
+interface ExportDialogProps {
+  profiles: LearnerProfile[];
+  activeId: string;
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  profiles,
+  activeId,
+  onClose,
+}) => {
+  const [scope, setScope] = useState<"current" | "all">("current");
+  // 密碼只保留在這次開啟的對話框中，不寫入 localStorage (舊版存下的密碼一併忽略)
+  const [lrsConfig, setLrsConfig] = useState<LrsConfig>(() => ({
+    ...loadPreference("lrs", DEFAULT_LRS_CONFIG),
+    password: "",
+  }));
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selected =
+    scope === "all" ? profiles : profiles.filter((p) => p.id === activeId);
+  const recordCount = selected.reduce((sum, p) => sum + p.history.length, 0);
+  const pendingCount = selected.reduce(
+    (sum, p) =>
+      sum +
+      p.history.filter((e) => e.completedAt > (lrsConfig.sentUntil[p.id] ?? 0))
+        .length,
+    0
+  );
+  const filename = `zenscribe-${
+    scope === "all" ? "class" : selected[0]?.name ?? "learner"
+  }`;
+
+  const updateConfig = (changes: Partial<LrsConfig>) => {
+    const next = { ...lrsConfig, ...changes };
+    setLrsConfig(next);
+    const { password, ...stored } = next;
+    savePreference("lrs", stored);
+  };
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setMessage(null);
+    try {
+      const sentAt = Date.now();
+      const count = await sendStatements(
+        historyToStatements(selected, lrsConfig.sentUntil),
+        lrsConfig
+      );
+      const sentUntil = { ...lrsConfig.sentUntil };
+      selected.forEach((p) => (sentUntil[p.id] = sentAt));
+      updateConfig({ sentUntil });
+      setMessage(count > 0 ? `已傳送 ${count} 筆陳述` : "沒有新的紀錄");
+    } catch (error: any) {
+      console.error("LRS Error:", error);
+      setMessage(error.message || "傳送失敗");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h3 className="text-sm font-bold text-slate-700">匯出練習紀錄</h3>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 text-xs font-bold text-slate-500">
+          <div className="flex items-center gap-3">
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              <button
+                onClick={() => setScope("current")}
+                className={`px-3 py-1 rounded-md transition-all ${
+                  scope === "current"
+                    ? "bg-white text-indigo-600 shadow-sm"
+                    : "text-slate-400 hover:text-slate-600"
+                }`}
+              >
+                目前學習者
+              </button>
+              <button
+                onClick={() => setScope("all")}
+                className={`px-3 py-1 rounded-md transition-all ${
+                  scope === "all"
+                    ? "bg-white text-indigo-600 shadow-sm"
+                    : "text-slate-400 hover:text-slate-600"
+                }`}
+              >
+                全部學習者
+              </button>
+            </div>
+            <span className="text-slate-400">共 {recordCount} 筆紀錄</span>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={() =>
+                downloadFile(historyToCsv(selected), `${filename}.csv`, "text/csv")
+              }
+              disabled={recordCount === 0}
+              className="flex-1 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl hover:bg-white disabled:opacity-40 transition-all"
+            >
+              下載 CSV
+            </button>
+            <button
+              onClick={() =>
+                downloadFile(
+                  JSON.stringify(historyToStatements(selected), null, 2),
+                  `${filename}.xapi.json`,
+                  "application/json"
+                )
+              }
+              disabled={recordCount === 0}
+              className="flex-1 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl hover:bg-white disabled:opacity-40 transition-all"
+            >
+              下載 xAPI 陳述
+            </button>
+          </div>
+
+          <div className="space-y-3 pt-4 border-t border-slate-100">
+            <h4 className="uppercase tracking-widest">LRS 傳送 (選用)</h4>
+            <input
+              type="url"
+              value={lrsConfig.endpoint}
+              onChange={(e) => updateConfig({ endpoint: e.target.value })}
+              className="w-full border border-slate-200 rounded-lg px-3 py-2 font-normal"
+              placeholder="http://localhost:8787/xapi"
+            />
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={lrsConfig.username}
+                onChange={(e) => updateConfig({ username: e.target.value })}
+                className="flex-1 min-w-0 border border-slate-200 rounded-lg px-3 py-2 font-normal"
+                placeholder="帳號 (Basic Auth)"
+              />
+              <input
+                type="password"
+                value={lrsConfig.password}
+                onChange={(e) => updateConfig({ password: e.target.value })}
+                className="flex-1 min-w-0 border border-slate-200 rounded-lg px-3 py-2 font-normal"
+                placeholder="密碼"
+              />
+            </div>
+            <p className="text-[10px] font-normal text-slate-400">
+              位址與帳號存於此裝置，密碼關閉視窗後需重新輸入。測試時可執行 npm run mock:lrs 啟動本機模擬 LRS。
+            </p>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleSend}
+                disabled={isSending || !lrsConfig.endpoint || pendingCount === 0}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-40 transition-all"
+              >
+                {isSending ? "傳送中…" : `傳送新紀錄 (${pendingCount})`}
+              </button>
+              {Object.keys(lrsConfig.sentUntil).length > 0 && (
+                <button
+                  onClick={() => updateConfig({ sentUntil: {} })}
+                  className="text-[10px] text-slate-400 hover:text-indigo-600"
+                  title="下次傳送全部紀錄"
+                >
+                  重設傳送進度
+                </button>
+              )}
+            </div>
+            {message && <p className="text-indigo-600">{message}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
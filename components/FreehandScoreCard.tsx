@@ -0,0 +1,81 @@
+import React from "react";
+import { FreehandResult } from "../types";
+import { getAccuracyGrade } from "../services/quizService";
+import { FREEHAND_ISSUE_LABELS } from "../services/freehandService";
+
+interface FreehandScoreCardProps {
+  result: FreehandResult | null;
+}
+
+const FreehandScoreCard: React.FC<FreehandScoreCardProps> = ({ result }) => {
+  if (!result) {
+    return (
+      <div className="w-full xl:w-56 bg-white rounded-2xl p-5 border border-slate-100 shadow-sm">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">
+          自由書寫評分
+        </h3>
+        <p className="text-[10px] text-slate-400 text-center py-2 italic">
+          寫完後按「評分」查看每一筆的回饋
+        </p>
+      </div>
+    );
+  }
+
+  const scoreColor =
+    result.score >= 90
+      ? "text-emerald-600"
+      : result.score >= 60
+      ? "text-amber-500"
+      : "text-rose-500";
+
+  return (
+    <div className="w-full xl:w-56 bg-white rounded-2xl p-5 border border-slate-100 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">
+          自由書寫評分
+        </h3>
+        <span className="text-2xl font-bold text-slate-800">{result.char}</span>
+      </div>
+
+      <div className="flex items-baseline gap-2 mb-4">
+        <span className={`text-4xl font-bold ${scoreColor}`}>
+          {result.score}
+        </span>
+        <span className="text-xs font-bold text-slate-400">分</span>
+        <span className={`ml-auto text-sm font-bold ${scoreColor}`}>
+          {getAccuracyGrade(result.score)}
+        </span>
+      </div>
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto text-xs">
+        {result.strokes.map((stroke) => (
+          <li
+            key={stroke.strokeNum}
+            className="flex items-center justify-between gap-2 px-2 py-1 rounded-md bg-slate-50"
+          >
+            <span className="font-bold text-slate-500 shrink-0">
+              第 {stroke.strokeNum + 1} 筆
+            </span>
+            {stroke.drawnIndex === null ? (
+              <span className="font-bold text-rose-500">漏寫</span>
+            ) : stroke.issues.length > 0 ? (
+              <span className="font-bold text-amber-500 text-right">
+                {stroke.issues.map((issue) => FREEHAND_ISSUE_LABELS[issue]).join("、")}
+              </span>
+            ) : (
+              <span className="font-bold text-emerald-600">✓</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {result.extraStrokes.length > 0 && (
+        <p className="mt-2 text-[10px] font-bold text-rose-500">
+          多寫了 {result.extraStrokes.length} 筆
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FreehandScoreCard;
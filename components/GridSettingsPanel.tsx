@@ -0,0 +1,80 @@
+import React from "react";
+import { GridSettings } from "../types";
+import { GRID_STYLES } from "../services/gridService";
+
+interface GridSettingsPanelProps {
+  settings: GridSettings;
+  onChange: (settings: GridSettings) => void;
+}
+
+const GRID_COLORS = ["#e11d48", "#16a34a", "#2563eb", "#000000"];
+
+const GridSettingsPanel: React.FC<GridSettingsPanelProps> = ({
+  settings,
+  onChange,
+}) => {
+  const update = (patch: Partial<GridSettings>) =>
+    onChange({ ...settings, ...patch });
+
+  return (
+    <div className="w-full max-w-[350px] bg-white p-4 rounded-xl border border-slate-100 shadow-sm">
+      <label className="text-xs font-bold text-slate-500 uppercase tracking-widest block mb-2">
+        練習格線
+      </label>
+      <div className="flex flex-wrap gap-1 mb-3">
+        {GRID_STYLES.map(({ style, label }) => (
+          <button
+            key={style}
+            onClick={() => update({ style })}
+            className={`px-2 py-1 rounded-lg text-xs font-bold transition-all ${
+              settings.style === style
+                ? "bg-indigo-600 text-white"
+                : "bg-slate-50 text-slate-400 hover:text-slate-600"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {settings.style !== "none" && (
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1">
+            {GRID_COLORS.map((color) => (
+              <button
+                key={color}
+                onClick={() => update({ color })}
+                className={`w-5 h-5 rounded-full border-2 transition-all ${
+                  settings.color === color
+                    ? "border-slate-700 scale-110"
+                    : "border-white"
+                }`}
+                style={{ backgroundColor: color }}
+                title={color}
+              />
+            ))}
+            <input
+              type="color"
+              value={settings.color}
+              onChange={(e) => update({ color: e.target.value })}
+              className="w-5 h-5 rounded-full overflow-hidden cursor-pointer"
+              title="自訂顏色"
+            />
+          </div>
+          <input
+            type="range"
+            min="0.05"
+            max="1"
+            step="0.05"
+            value={settings.contrast}
+            onChange={(e) => update({ contrast: parseFloat(e.target.value) })}
+            className="flex-1 h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            title="格線深淺"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GridSettingsPanel;
@@ -0,0 +1,216 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Lesson } from "../types";
+import {
+  createLessonId,
+  getAllLessons,
+  groupLessons,
+  loadUserLessons,
+  parseLessonFile,
+  saveUserLessons,
+} from "../services/lessonService";
+
+interface LessonLibraryDialogProps {
+  currentText: string;
+  onLoad: (lesson: Lesson) => void;
+  onClose: () => void;
+}
+
+const LessonLibraryDialog: React.FC<LessonLibraryDialogProps> = ({
+  currentText,
+  onLoad,
+  onClose,
+}) => {
+  const [userLessons, setUserLessons] = useState<Lesson[]>(loadUserLessons);
+  const [selected, setSelected] = useState<Lesson | null>(null);
+  const [openGroups, setOpenGroups] = useState<string[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+  const [newGroup, setNewGroup] = useState("我的課程");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const groups = useMemo(
+    () => groupLessons(getAllLessons(userLessons)),
+    [userLessons]
+  );
+
+  const updateUserLessons = (lessons: Lesson[]) => {
+    setUserLessons(lessons);
+    saveUserLessons(lessons);
+  };
+
+  const toggleGroup = (group: string) =>
+    setOpenGroups((prev) =>
+      prev.includes(group) ? prev.filter((g) => g !== group) : [...prev, group]
+    );
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])];
+    e.target.value = "";
+    if (files.length === 0) return;
+    try {
+      const imported: Lesson[] = [];
+      for (const file of files) {
+        imported.push(...parseLessonFile(file.name, await file.text()));
+      }
+      updateUserLessons([...userLessons, ...imported]);
+      setOpenGroups((prev) => [...new Set([...prev, ...imported.map((l) => l.group)])]);
+      setMessage(`已匯入 ${imported.length} 課`);
+    } catch (error: any) {
+      setMessage(error.message);
+    }
+  };
+
+  const handleSaveCurrent = () => {
+    if (!currentText.trim() || !newTitle.trim()) return;
+    const lesson: Lesson = {
+      id: createLessonId(),
+      title: newTitle.trim(),
+      group: newGroup.trim() || "我的課程",
+      text: currentText.trim(),
+    };
+    updateUserLessons([...userLessons, lesson]);
+    setOpenGroups((prev) => [...new Set([...prev, lesson.group])]);
+    setSelected(lesson);
+    setNewTitle("");
+  };
+
+  const handleDelete = (lesson: Lesson) => {
+    updateUserLessons(userLessons.filter((l) => l.id !== lesson.id));
+    if (selected?.id === lesson.id) setSelected(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h3 className="text-sm font-bold text-slate-700">課程庫</h3>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-slate-100 text-xs font-bold text-slate-500">
+          <input
+            type="text"
+            value={newGroup}
+            onChange={(e) => setNewGroup(e.target.value)}
+            className="w-28 border border-slate-200 rounded-lg px-2 py-1"
+            placeholder="群組 / 章節"
+          />
+          <input
+            type="text"
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            className="w-28 border border-slate-200 rounded-lg px-2 py-1"
+            placeholder="課名"
+          />
+          <button
+            onClick={handleSaveCurrent}
+            disabled={!newTitle.trim() || !currentText.trim()}
+            className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-xl hover:bg-white disabled:opacity-40 transition-all"
+            title="將目前的練習文字存成一課"
+          >
+            儲存目前文字
+          </button>
+          {message && <span className="text-indigo-600">{message}</span>}
+          <div className="ml-auto">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+              multiple
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-all"
+              title="CSV (group,title,text)、JSON 或純文字 (# 群組 / 課名：內容)"
+            >
+              匯入 CSV / JSON / 文字
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+          <div className="md:w-72 max-h-64 md:max-h-none overflow-y-auto border-b md:border-b-0 md:border-r border-slate-100 p-3 space-y-1 text-xs">
+            {groups.map(([group, lessons]) => (
+              <div key={group}>
+                <button
+                  onClick={() => toggleGroup(group)}
+                  className="w-full flex items-center justify-between px-3 py-2 rounded-lg font-bold text-slate-600 hover:bg-slate-50 transition-all"
+                >
+                  <span>{group}</span>
+                  <span className="text-slate-400">
+                    {lessons.length} {openGroups.includes(group) ? "▾" : "▸"}
+                  </span>
+                </button>
+                {openGroups.includes(group) && (
+                  <ul className="ml-3 space-y-0.5">
+                    {lessons.map((lesson) => (
+                      <li key={lesson.id}>
+                        <button
+                          onClick={() => setSelected(lesson)}
+                          className={`w-full text-left px-3 py-1.5 rounded-lg transition-all ${
+                            selected?.id === lesson.id
+                              ? "bg-indigo-50 text-indigo-700 font-bold"
+                              : "text-slate-500 hover:bg-slate-50"
+                          }`}
+                        >
+                          {lesson.title}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto bg-slate-50 p-6">
+            {selected ? (
+              <div className="flex flex-col gap-4">
+                <div>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {selected.group}
+                  </p>
+                  <h4 className="text-lg font-bold text-slate-800">
+                    {selected.title}
+                  </h4>
+                </div>
+                <p className="text-2xl leading-relaxed text-slate-700 tracking-wide break-all">
+                  {selected.text}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onLoad(selected)}
+                    className="px-6 py-2 bg-indigo-600 text-white rounded-xl text-sm font-bold hover:bg-indigo-700 active:scale-95 transition-all"
+                  >
+                    載入這一課
+                  </button>
+                  {!selected.isBuiltIn && (
+                    <button
+                      onClick={() => handleDelete(selected)}
+                      className="px-4 py-2 text-xs font-bold text-slate-400 hover:text-rose-500 transition-colors"
+                    >
+                      刪除
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-center text-xs font-bold text-slate-400 py-12">
+                選擇左側的課程以預覽
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonLibraryDialog;
@@ -0,0 +1,44 @@
+import React from "react";
+import { GridSettings } from "../types";
+import { getGridLines } from "../services/gridService";
+
+interface PracticeGridProps {
+  settings: GridSettings;
+}
+
+const PracticeGrid: React.FC<PracticeGridProps> = ({ settings }) => {
+  if (settings.style === "none") return null;
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none"
+      style={{ opacity: settings.contrast }}
+    >
+      <svg width="100%" height="100%" viewBox="0 0 100 100">
+        <rect
+          x="0.5"
+          y="0.5"
+          width="99"
+          height="99"
+          fill="none"
+          stroke={settings.color}
+          strokeWidth="1"
+        />
+        {getGridLines(settings.style).map((line, i) => (
+          <line
+            key={i}
+            x1={line.x1}
+            y1={line.y1}
+            x2={line.x2}
+            y2={line.y2}
+            stroke={settings.color}
+            strokeWidth={line.dashed ? 0.5 : 1}
+            strokeDasharray={line.dashed ? "2" : undefined}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+export default PracticeGrid;
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { LearnerProfile } from "../types";
+
+interface ProfileSwitcherProps {
+  profiles: LearnerProfile[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const AVATAR_COLORS = [
+  "bg-indigo-500",
+  "bg-emerald-500",
+  "bg-amber-500",
+  "bg-rose-500",
+  "bg-sky-500",
+];
+
+const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  activeId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const active = profiles.find((p) => p.id === activeId) ?? profiles[0];
+
+  const avatar = (profile: LearnerProfile, sizeClass: string) => (
+    <span
+      className={`${sizeClass} ${
+        AVATAR_COLORS[profiles.indexOf(profile) % AVATAR_COLORS.length]
+      } rounded-full text-white font-bold flex items-center justify-center shrink-0`}
+    >
+      {profile.name.slice(0, 1)}
+    </span>
+  );
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName("");
+    setIsOpen(false);
+  };
+
+  const handleRename = (profile: LearnerProfile) => {
+    const name = window.prompt("新的名稱", profile.name);
+    if (name?.trim()) onRename(profile.id, name.trim());
+  };
+
+  const handleDelete = (profile: LearnerProfile) => {
+    if (!window.confirm(`確定要刪除「${profile.name}」的設定與練習紀錄嗎？`)) return;
+    onDelete(profile.id);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 bg-slate-100 rounded-lg p-1 pr-3 hover:bg-slate-200 transition-colors"
+        title="切換學習者"
+      >
+        {avatar(active, "w-7 h-7 text-xs")}
+        <span className="text-xs font-bold text-slate-600 max-w-[6rem] truncate">
+          {active.name}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-60 bg-white rounded-xl shadow-lg border border-slate-100 p-2 z-50">
+          <p className="text-[10px] font-bold text-slate-400 px-2 mb-1 uppercase">
+            學習者
+          </p>
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              className={`group flex items-center gap-2 px-2 py-1.5 rounded-lg ${
+                profile.id === activeId ? "bg-indigo-50" : "hover:bg-slate-50"
+              }`}
+            >
+              <button
+                onClick={() => {
+                  onSwitch(profile.id);
+                  setIsOpen(false);
+                }}
+                className="flex-1 flex items-center gap-2 text-left min-w-0"
+              >
+                {avatar(profile, "w-6 h-6 text-[10px]")}
+                <span className="flex-1 min-w-0">
+                  <span
+                    className={`block text-xs truncate ${
+                      profile.id === activeId
+                        ? "font-bold text-indigo-600"
+                        : "text-slate-600"
+                    }`}
+                  >
+                    {profile.name}
+                  </span>
+                  <span className="block text-[10px] text-slate-400">
+                    已完成 {profile.history.length} 字
+                  </span>
+                </span>
+              </button>
+              <button
+                onClick={() => handleRename(profile)}
+                className="text-[10px] text-slate-300 hover:text-indigo-500 hidden group-hover:block"
+              >
+                改名
+              </button>
+              {profile.id !== activeId && (
+                <button
+                  onClick={() => handleDelete(profile)}
+                  className="text-[10px] text-slate-300 hover:text-rose-500 hidden group-hover:block"
+                >
+                  刪除
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="flex gap-1 mt-2 pt-2 border-t border-slate-100">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              className="flex-1 min-w-0 border border-slate-200 rounded-lg px-2 py-1 text-xs"
+              placeholder="新增學習者"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="px-2 py-1 bg-indigo-600 text-white rounded-lg text-xs font-bold disabled:opacity-40"
+            >
+              新增
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileSwitcher;
@@ -0,0 +1,325 @@
+import React, { useMemo, useState } from "react";
+import { Lesson, LearnerProfile } from "../types";
+import {
+  HistoryFilter,
+  ScriptFilter,
+  filterHistory,
+  formatDuration,
+  getCharacterStats,
+  getDailyStats,
+  getMostMissedCharacters,
+  getMostMissedStrokes,
+  getStreaks,
+  getSummary,
+} from "../services/statsService";
+
+interface ProgressDashboardProps {
+  profile: LearnerProfile;
+  lessons: Lesson[];
+  onPractice: (text: string) => void;
+  onClose: () => void;
+}
+
+const RANGE_OPTIONS = [7, 14, 30];
+const CHART_HEIGHT = 120;
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
+  profile,
+  lessons,
+  onPractice,
+  onClose,
+}) => {
+  const [filter, setFilter] = useState<HistoryFilter>({
+    lessonId: "all",
+    script: "all",
+  });
+  const [days, setDays] = useState(14);
+
+  // 只列出紀錄中出現過的課程
+  const lessonOptions = useMemo(() => {
+    const ids = new Set(profile.history.map((e) => e.lessonId));
+    return lessons.filter((lesson) => ids.has(lesson.id));
+  }, [profile.history, lessons]);
+
+  const history = useMemo(
+    () => filterHistory(profile.history, filter),
+    [profile.history, filter]
+  );
+  const summary = getSummary(history);
+  const streaks = getStreaks(history);
+  const daily = getDailyStats(history, days);
+  const characterStats = useMemo(() => getCharacterStats(history), [history]);
+  const missedCharacters = getMostMissedCharacters(characterStats);
+  const missedStrokes = getMostMissedStrokes(history);
+  const recentCharacters = [...characterStats]
+    .sort((a, b) => b.lastPracticedAt - a.lastPracticedAt)
+    .slice(0, 30);
+
+  const maxCount = Math.max(1, ...daily.map((d) => d.count));
+  const barWidth = 100 / daily.length;
+  const accuracyPoints = daily
+    .map((d, i) =>
+      d.accuracy === null
+        ? null
+        : `${(i + 0.5) * barWidth},${CHART_HEIGHT - (d.accuracy / 100) * CHART_HEIGHT}`
+    )
+    .filter(Boolean)
+    .join(" ");
+
+  const summaryCards = [
+    { label: "練習次數", value: summary.attempts },
+    { label: "練過的字", value: summary.uniqueCharacters },
+    {
+      label: "平均分數",
+      value: summary.averageScore === null ? "—" : summary.averageScore,
+    },
+    { label: "練習時間", value: formatDuration(summary.totalDurationMs) },
+    { label: "連續天數", value: `${streaks.current} 天` },
+    { label: "最長連續", value: `${streaks.longest} 天` },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-5xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h3 className="text-sm font-bold text-slate-700">
+            學習統計 · {profile.name}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-slate-100 text-xs font-bold text-slate-500">
+          <label className="flex items-center gap-2">
+            課程
+            <select
+              value={filter.lessonId}
+              onChange={(e) => setFilter({ ...filter, lessonId: e.target.value })}
+              className="border border-slate-200 rounded-lg px-2 py-1"
+            >
+              <option value="all">全部</option>
+              <option value="custom">自訂文字</option>
+              {lessonOptions.map((lesson) => (
+                <option key={lesson.id} value={lesson.id}>
+                  {lesson.group} · {lesson.title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            字體
+            <select
+              value={filter.script}
+              onChange={(e) =>
+                setFilter({ ...filter, script: e.target.value as ScriptFilter })
+              }
+              className="border border-slate-200 rounded-lg px-2 py-1"
+            >
+              <option value="all">全部</option>
+              <option value="traditional">繁體</option>
+              <option value="simplified">簡体</option>
+            </select>
+          </label>
+          <div className="ml-auto flex bg-slate-100 p-1 rounded-lg">
+            {RANGE_OPTIONS.map((range) => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`px-3 py-1 rounded-md transition-all ${
+                  days === range
+                    ? "bg-white text-indigo-600 shadow-sm"
+                    : "text-slate-400 hover:text-slate-600"
+                }`}
+              >
+                {range} 天
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto bg-slate-50 p-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {summaryCards.map((card) => (
+              <div
+                key={card.label}
+                className="bg-white p-4 rounded-xl border border-slate-100 text-center"
+              >
+                <span className="text-[10px] font-bold text-slate-400 block uppercase">
+                  {card.label}
+                </span>
+                <span className="text-xl font-bold text-slate-700">
+                  {card.value}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {/* 每日練習字數 (長條) 與平均分數 (折線) */}
+          <div className="bg-white p-5 rounded-xl border border-slate-100">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">
+                每日練習
+              </h4>
+              <span className="flex gap-3 text-[10px] font-bold text-slate-400">
+                <span className="flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-sm bg-indigo-300" /> 字數
+                </span>
+                <span className="flex items-center gap-1">
+                  <span className="w-2 h-0.5 bg-emerald-500" /> 平均分數
+                </span>
+              </span>
+            </div>
+            <svg
+              viewBox={`0 0 100 ${CHART_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-32"
+            >
+              {daily.map((d, i) => {
+                const height = (d.count / maxCount) * (CHART_HEIGHT - 10);
+                return (
+                  <rect
+                    key={d.date}
+                    x={i * barWidth + barWidth * 0.15}
+                    y={CHART_HEIGHT - height}
+                    width={barWidth * 0.7}
+                    height={height}
+                    fill="#a5b4fc"
+                  >
+                    <title>
+                      {d.date}：{d.count} 字
+                      {d.accuracy !== null && `，平均 ${d.accuracy} 分`}，
+                      {formatDuration(d.durationMs)}
+                    </title>
+                  </rect>
+                );
+              })}
+              {accuracyPoints && (
+                <polyline
+                  points={accuracyPoints}
+                  fill="none"
+                  stroke="#10b981"
+                  strokeWidth="1.5"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+            <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+              <span>{daily[0].date.slice(5)}</span>
+              <span>{daily[daily.length - 1].date.slice(5)}</span>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="bg-white p-5 rounded-xl border border-slate-100">
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">
+                  最常出錯的字
+                </h4>
+                {missedCharacters.length > 0 && (
+                  <button
+                    onClick={() =>
+                      onPractice(missedCharacters.map((s) => s.char).join(""))
+                    }
+                    className="text-[10px] font-bold text-indigo-600 hover:underline"
+                  >
+                    加強練習
+                  </button>
+                )}
+              </div>
+              {missedCharacters.length === 0 ? (
+                <p className="text-[10px] text-slate-400 text-center py-4 italic">
+                  目前沒有錯誤紀錄
+                </p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {missedCharacters.map((s) => (
+                    <li
+                      key={s.char}
+                      className="flex items-center gap-3 px-2 py-1 rounded-md bg-slate-50"
+                    >
+                      <span className="text-lg font-bold text-slate-700">{s.char}</span>
+                      <span className="flex-1 text-slate-400">
+                        練習 {s.attempts} 次 · 平均 {s.averageScore} 分
+                      </span>
+                      <span className="font-bold text-rose-500">✕{s.mistakes}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white p-5 rounded-xl border border-slate-100">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">
+                最常出錯的筆劃
+              </h4>
+              {missedStrokes.length === 0 ? (
+                <p className="text-[10px] text-slate-400 text-center py-4 italic">
+                  目前沒有錯誤紀錄
+                </p>
+              ) : (
+                <ul className="space-y-1 text-xs">
+                  {missedStrokes.map((s) => (
+                    <li
+                      key={`${s.char}-${s.strokeNum}`}
+                      className="flex items-center gap-3 px-2 py-1 rounded-md bg-slate-50"
+                    >
+                      <span className="text-lg font-bold text-slate-700">{s.char}</span>
+                      <span className="flex-1 text-slate-500">
+                        第 {s.strokeNum + 1} 筆
+                      </span>
+                      <span className="font-bold text-rose-500">{s.misses} 次</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white p-5 rounded-xl border border-slate-100">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">
+              最近練習的字
+            </h4>
+            {recentCharacters.length === 0 ? (
+              <p className="text-[10px] text-slate-400 text-center py-4 italic">
+                尚無練習紀錄
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {recentCharacters.map((s) => (
+                  <div
+                    key={s.char}
+                    className="w-16 p-2 rounded-lg bg-slate-50 text-center"
+                    title={`練習 ${s.attempts} 次，最後一次 ${new Date(
+                      s.lastPracticedAt
+                    ).toLocaleDateString("zh-TW")}`}
+                  >
+                    <span className="text-2xl font-bold text-slate-700 block">
+                      {s.char}
+                    </span>
+                    <span
+                      className={`text-[10px] font-bold ${
+                        s.averageScore >= 90
+                          ? "text-emerald-600"
+                          : s.averageScore >= 60
+                          ? "text-amber-500"
+                          : "text-rose-500"
+                      }`}
+                    >
+                      {s.averageScore} 分
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,240 @@
+import React, { useEffect, useRef, useState } from "react";
+import { PronunciationResult } from "../types";
+import {
+  PronunciationRecording,
+  evaluatePronunciation,
+  getRecognizer,
+  isRecordingSupported,
+  startPronunciationRecording,
+} from "../services/pronunciationService";
+import { TONE_CONTOURS, TONE_NAMES } from "../services/pitchService";
+
+interface PronunciationPanelProps {
+  char: string;
+  pinyin: string;
+  isSimplified: boolean;
+}
+
+const CHART_WIDTH = 200;
+const CHART_HEIGHT = 90;
+const PADDING = 8;
+
+// 五度標記 1 - 5 對應到圖表高度
+const toY = (level: number) =>
+  CHART_HEIGHT - PADDING - ((level - 1) / 4) * (CHART_HEIGHT - PADDING * 2);
+const toX = (ratio: number) => PADDING + ratio * (CHART_WIDTH - PADDING * 2);
+
+const MatchBadge: React.FC<{ label: string; value: boolean | null }> = ({
+  label,
+  value,
+}) => (
+  <div className="bg-slate-50 p-2 rounded-lg text-center">
+    <span className="text-[10px] text-slate-400 block">{label}</span>
+    <span
+      className={`font-bold ${
+        value === null
+          ? "text-slate-400"
+          : value
+          ? "text-emerald-600"
+          : "text-rose-500"
+      }`}
+    >
+      {value === null ? "—" : value ? "正確" : "不對"}
+    </span>
+  </div>
+);
+
+const PronunciationPanel: React.FC<PronunciationPanelProps> = ({
+  char,
+  pinyin,
+  isSimplified,
+}) => {
+  const [status, setStatus] = useState<"idle" | "recording" | "analyzing">(
+    "idle"
+  );
+  const [result, setResult] = useState<PronunciationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<PronunciationRecording | null>(null);
+
+  // 換字或離開時停止錄音
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    return () => recordingRef.current?.stop();
+  }, [char]);
+
+  const handleRecord = async () => {
+    if (status === "recording") {
+      recordingRef.current?.stop();
+      return;
+    }
+    setError(null);
+    setResult(null);
+    try {
+      const recording = await startPronunciationRecording(
+        isSimplified ? "zh-CN" : "zh-TW"
+      );
+      recordingRef.current = recording;
+      setStatus("recording");
+      const { transcripts, contour } = await recording.finished;
+      setStatus("analyzing");
+      setResult(await evaluatePronunciation(char, pinyin, transcripts, contour));
+    } catch (err: any) {
+      console.error("Pronunciation Practice Error:", err);
+      setError(err.message || "錄音失敗");
+    } finally {
+      recordingRef.current = null;
+      setStatus("idle");
+    }
+  };
+
+  if (!isRecordingSupported()) {
+    return (
+      <p className="text-[10px] text-slate-400 text-center py-2 italic">
+        此瀏覽器不支援錄音
+      </p>
+    );
+  }
+
+  const reference = result ? TONE_CONTOURS[result.expectedTone] : null;
+  // 學生的曲線只比較形狀：平移到與標準調型相同的平均高度，每 3 個半音約為一度
+  const studentPoints = (() => {
+    if (!result || !reference || result.contour.length === 0) return "";
+    const { contour } = result;
+    const referenceMean =
+      reference.reduce((sum, v) => sum + v, 0) / reference.length;
+    const studentMean =
+      contour.reduce((sum, p) => sum + p.semitone, 0) / contour.length;
+    const startT = contour[0].t;
+    const duration = Math.max(0.01, contour[contour.length - 1].t - startT);
+    return contour
+      .map((p) => {
+        const level = Math.max(
+          0.6,
+          Math.min(5.4, referenceMean + (p.semitone - studentMean) / 3)
+        );
+        return `${toX((p.t - startT) / duration)},${toY(level)}`;
+      })
+      .join(" ");
+  })();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handleRecord}
+          disabled={status === "analyzing"}
+          className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all flex items-center gap-1.5 disabled:opacity-40 ${
+            status === "recording"
+              ? "bg-rose-500 text-white animate-pulse"
+              : "bg-indigo-600 text-white hover:bg-indigo-700"
+          }`}
+          title="對著麥克風唸出這個字，檢查音節與聲調"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <rect x="9" y="2" width="6" height="12" rx="3" />
+            <path d="M5 10a7 7 0 0 0 14 0" />
+            <path d="M12 19v3" />
+          </svg>
+          {status === "recording"
+            ? "停止"
+            : status === "analyzing"
+            ? "分析中…"
+            : "說說看"}
+        </button>
+        <span className="text-xs text-slate-500">
+          {char} · <span className="font-bold text-indigo-600">{pinyin}</span>
+        </span>
+      </div>
+
+      {!getRecognizer() && (
+        <p className="text-[10px] text-slate-400">
+          此瀏覽器不支援語音辨識，只會分析聲調。
+        </p>
+      )}
+      {error && <p className="text-[10px] font-bold text-rose-500">{error}</p>}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <MatchBadge label="音節" value={result.syllableMatch} />
+            <MatchBadge label="聲調" value={result.toneMatch} />
+          </div>
+          <p className="text-[10px] text-slate-500">
+            聽到：
+            <span className="font-bold text-slate-700">
+              {result.transcripts[0] ?? "—"}
+              {result.heardPinyin && ` (${result.heardPinyin})`}
+            </span>
+            {" · "}
+            聲調：
+            <span className="font-bold text-slate-700">
+              {result.detectedTone ? TONE_NAMES[result.detectedTone] : "無法判斷"}
+            </span>
+            ，應為 {TONE_NAMES[result.expectedTone]}
+          </p>
+
+          {/* 標準調型 (虛線) 與學生的音高曲線 */}
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            className="w-full bg-white rounded-lg border border-indigo-100"
+          >
+            {[1, 2, 3, 4, 5].map((level) => (
+              <g key={level}>
+                <line
+                  x1={PADDING}
+                  x2={CHART_WIDTH - PADDING}
+                  y1={toY(level)}
+                  y2={toY(level)}
+                  stroke="#f1f5f9"
+                />
+                <text x={1} y={toY(level) + 3} fontSize="6" fill="#cbd5e1">
+                  {level}
+                </text>
+              </g>
+            ))}
+            {reference && (
+              <polyline
+                points={reference
+                  .map((level, i) => `${toX(i / (reference.length - 1))},${toY(level)}`)
+                  .join(" ")}
+                fill="none"
+                stroke="#a5b4fc"
+                strokeWidth="3"
+                strokeDasharray="6 4"
+                strokeLinecap="round"
+              />
+            )}
+            {studentPoints && (
+              <polyline
+                points={studentPoints}
+                fill="none"
+                stroke={result.toneMatch === false ? "#f43f5e" : "#10b981"}
+                strokeWidth="2"
+                strokeLinejoin="round"
+                strokeLinecap="round"
+              />
+            )}
+          </svg>
+          {result.contour.length === 0 && (
+            <p className="text-[10px] text-slate-400 italic">
+              沒有偵測到清楚的聲音，請靠近麥克風再唸一次
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationPanel;
@@ -0,0 +1,99 @@
+import React from "react";
+import { QuizResult } from "../types";
+import { getAccuracyGrade } from "../services/quizService";
+
+interface QuizScoreCardProps {
+  result: QuizResult | null;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const QuizScoreCard: React.FC<QuizScoreCardProps> = ({ result }) => {
+  if (!result) {
+    return (
+      <div className="w-full xl:w-56 bg-white rounded-2xl p-5 border border-slate-100 shadow-sm">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">
+          書寫成績
+        </h3>
+        <p className="text-[10px] text-slate-400 text-center py-2 italic">
+          完成書寫後顯示成績
+        </p>
+      </div>
+    );
+  }
+
+  const accuracyColor =
+    result.accuracy >= 90
+      ? "text-emerald-600"
+      : result.accuracy >= 60
+      ? "text-amber-500"
+      : "text-rose-500";
+
+  return (
+    <div className="w-full xl:w-56 bg-white rounded-2xl p-5 border border-slate-100 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-slate-500 uppercase tracking-widest">
+          書寫成績
+        </h3>
+        <span className="text-2xl font-bold text-slate-800">{result.char}</span>
+      </div>
+
+      <div className="flex items-baseline gap-2 mb-4">
+        <span className={`text-4xl font-bold ${accuracyColor}`}>
+          {result.accuracy}
+        </span>
+        <span className="text-xs font-bold text-slate-400">%</span>
+        <span className={`ml-auto text-sm font-bold ${accuracyColor}`}>
+          {getAccuracyGrade(result.accuracy)}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        <div className="bg-slate-50 p-2 rounded-lg">
+          <span className="text-[10px] text-slate-400 block">錯誤</span>
+          <span className="font-bold text-slate-700">
+            {result.totalMistakes}
+          </span>
+        </div>
+        <div className="bg-slate-50 p-2 rounded-lg">
+          <span className="text-[10px] text-slate-400 block">提示</span>
+          <span className="font-bold text-slate-700">{result.hintsUsed}</span>
+        </div>
+        <div className="bg-slate-50 p-2 rounded-lg">
+          <span className="text-[10px] text-slate-400 block">時間</span>
+          <span className="font-bold text-slate-700">
+            {formatSeconds(result.totalDurationMs)}
+          </span>
+        </div>
+      </div>
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto text-xs">
+        {result.strokes.map((stroke) => (
+          <li
+            key={stroke.strokeNum}
+            className="flex items-center justify-between px-2 py-1 rounded-md bg-slate-50"
+          >
+            <span className="font-bold text-slate-500">
+              第 {stroke.strokeNum + 1} 筆
+            </span>
+            <span
+              className={
+                stroke.mistakes > 0
+                  ? "font-bold text-rose-500"
+                  : "font-bold text-emerald-600"
+              }
+            >
+              {stroke.mistakes > 0 ? `✕${stroke.mistakes}` : "✓"}
+              {stroke.hintShown && " 💡"}
+            </span>
+            <span className="text-slate-400">
+              {formatSeconds(stroke.durationMs)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QuizScoreCard;
@@ -0,0 +1,108 @@
+import React from "react";
+import { RubyMode } from "../types";
+import { formatReading } from "../services/readingService";
+import RubyChar from "./RubyChar";
+
+interface ReadingViewProps {
+  text: string;
+  readings: (string | null)[]; // 與導覽列的字 (去除空白) 對齊
+  mode: RubyMode;
+  isSimplified: boolean;
+  currentIndex: number;
+  highlightRange: { start: number; end: number } | null;
+  onModeChange: (mode: RubyMode) => void;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+export const RUBY_MODE_LABELS: Record<RubyMode, string> = {
+  none: "不標注",
+  pinyin: "拼音",
+  zhuyin: "注音",
+};
+
+const ReadingView: React.FC<ReadingViewProps> = ({
+  text,
+  readings,
+  mode,
+  isSimplified,
+  currentIndex,
+  highlightRange,
+  onModeChange,
+  onSelect,
+  onClose,
+}) => {
+  let navIndex = 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-4xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h3 className="text-sm font-bold text-slate-700">全文閱讀</h3>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4 px-6 py-3 border-b border-slate-100 text-xs font-bold text-slate-500">
+          <div className="flex bg-slate-100 p-1 rounded-lg">
+            {(Object.keys(RUBY_MODE_LABELS) as RubyMode[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => onModeChange(option)}
+                className={`px-3 py-1 rounded-md transition-all ${
+                  mode === option
+                    ? "bg-white text-indigo-600 shadow-sm"
+                    : "text-slate-400 hover:text-slate-600"
+                }`}
+              >
+                {RUBY_MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <span className="text-slate-400 font-normal">點選任一字即可前往練習</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8">
+          <p className="flex flex-wrap items-end gap-y-6 text-4xl text-slate-800 leading-relaxed">
+            {text.split("").map((char, i) => {
+              if (/\s/.test(char)) {
+                return <span key={i} className="w-6" />;
+              }
+              const index = navIndex++;
+              const isHighlighted =
+                highlightRange &&
+                index >= highlightRange.start &&
+                index < highlightRange.end;
+              return (
+                <button
+                  key={i}
+                  onClick={() => onSelect(index)}
+                  className={`px-1 rounded-lg transition-colors ${
+                    index === currentIndex
+                      ? "bg-indigo-50 text-indigo-700"
+                      : isHighlighted
+                      ? "bg-amber-100 text-amber-700"
+                      : "hover:bg-slate-50"
+                  }`}
+                >
+                  <RubyChar
+                    char={char}
+                    reading={formatReading(readings[index] ?? null, mode)}
+                    mode={mode}
+                    isVertical={!isSimplified}
+                  />
+                </button>
+              );
+            })}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReadingView;
@@ -0,0 +1,47 @@
+import React from "react";
+import { RubyMode } from "../types";
+import { splitZhuyin } from "../services/readingService";
+
+interface RubyCharProps {
+  char: string;
+  reading: string; // 已依標注方式轉換的讀音
+  mode: RubyMode;
+  // 直式注音 (台灣課本的排法)：注音直排在字的右側
+  isVertical?: boolean;
+}
+
+const RubyChar: React.FC<RubyCharProps> = ({
+  char,
+  reading,
+  mode,
+  isVertical = false,
+}) => {
+  if (mode === "none" || !reading) return <>{char}</>;
+
+  if (mode === "zhuyin" && isVertical) {
+    const { body, tone, isNeutral } = splitZhuyin(reading);
+    return (
+      <span className="inline-flex items-center gap-[0.05em]">
+        <span>{char}</span>
+        <span className="inline-flex items-center text-[0.32em] leading-none font-normal">
+          <span className="inline-flex flex-col items-center">
+            {isNeutral && <span>˙</span>}
+            {body.split("").map((symbol, i) => (
+              <span key={i}>{symbol}</span>
+            ))}
+          </span>
+          {tone && <span className="ml-[0.1em]">{tone}</span>}
+        </span>
+      </span>
+    );
+  }
+
+  return (
+    <ruby>
+      {char}
+      <rt className="text-[0.4em] font-normal tracking-normal">{reading}</rt>
+    </ruby>
+  );
+};
+
+export default RubyChar;
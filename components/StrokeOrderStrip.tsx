@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from "react";
+import {
+  StrokeDataJson,
+  getStrokeTransform,
+  loadStrokeData,
+} from "../services/strokeDataService";
+
+interface StrokeOrderStripProps {
+  character: string;
+  currentStroke: number; // 已完成的筆劃數
+  onSelectStroke?: (completed: number) => void;
+  frameSize?: number;
+}
+
+const CURRENT_STROKE_COLOR = "#4f46e5";
+
+/**
+ * 筆順分解：每格累積顯示到第 n 筆，第 n 筆以提示色標示
+ */
+const StrokeOrderStrip: React.FC<StrokeOrderStripProps> = ({
+  character,
+  currentStroke,
+  onSelectStroke,
+  frameSize = 48,
+}) => {
+  const [data, setData] = useState<StrokeDataJson | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+    loadStrokeData(character).then((result) => {
+      if (!cancelled) setData(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [character]);
+
+  if (!data) return null;
+
+  const transform = getStrokeTransform(frameSize, frameSize * 0.08);
+
+  return (
+    <div className="w-full max-w-[350px] bg-white p-4 rounded-xl border border-slate-100 shadow-sm">
+      <label className="text-xs font-bold text-slate-500 uppercase tracking-widest block mb-2">
+        筆順分解
+      </label>
+      <div className="flex flex-wrap gap-1.5">
+        {data.strokes.map((stroke, i) => (
+          <button
+            key={i}
+            onClick={() => onSelectStroke?.(i + 1)}
+            className={`relative rounded-md border transition-all ${
+              i === currentStroke - 1
+                ? "border-indigo-400 bg-indigo-50"
+                : "border-slate-100 hover:border-slate-300"
+            }`}
+            style={{ width: frameSize, height: frameSize }}
+            title={`第 ${i + 1} 筆`}
+          >
+            <svg width={frameSize} height={frameSize}>
+              <g transform={transform}>
+                {data.strokes.slice(0, i).map((d, j) => (
+                  <path key={j} d={d} fill="#94a3b8" />
+                ))}
+                <path d={stroke} fill={CURRENT_STROKE_COLOR} />
+              </g>
+            </svg>
+            <span className="absolute top-0.5 left-1 text-[9px] font-bold text-slate-400">
+              {i + 1}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StrokeOrderStrip;
@@ -0,0 +1,95 @@
+import React from "react";
+import { WordInfo } from "../types";
+
+interface WordInsightsPanelProps {
+  word: string;
+  currentChar: string;
+  info: WordInfo | null;
+  isLoading: boolean;
+}
+
+const WordInsightsPanel: React.FC<WordInsightsPanelProps> = ({
+  word,
+  currentChar,
+  info,
+  isLoading,
+}) => {
+  if (word.length <= 1) {
+    return (
+      <p className="text-[10px] text-slate-400 text-center py-2 italic">
+        「{currentChar}」在這段文字中單獨成詞
+      </p>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3 animate-pulse">
+        <div className="h-3 bg-indigo-100 rounded w-full"></div>
+        <div className="h-3 bg-indigo-100 rounded w-2/3"></div>
+        <div className="h-3 bg-indigo-100 rounded w-1/2"></div>
+      </div>
+    );
+  }
+
+  const hasSandhi =
+    !!info?.pinyin &&
+    !!info.citationPinyin &&
+    info.pinyin !== info.citationPinyin;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="bg-white p-3 rounded-lg border border-indigo-100 text-center">
+        <p className="text-2xl font-bold text-slate-800 tracking-widest">
+          {word.split("").map((char, i) => (
+            <span
+              key={i}
+              className={char === currentChar ? "text-indigo-600" : undefined}
+            >
+              {char}
+            </span>
+          ))}
+        </p>
+        <p className="font-bold text-indigo-600 mt-1">{info?.pinyin || "—"}</p>
+        {info?.zhuyin && (
+          <p className="text-xs text-indigo-400">{info.zhuyin}</p>
+        )}
+        {hasSandhi && (
+          <p className="text-[10px] text-amber-600 mt-1">
+            變調：本調 {info!.citationPinyin}
+          </p>
+        )}
+      </div>
+
+      {info?.definition ? (
+        <p className="text-slate-600 leading-relaxed text-xs">
+          {info.definition}
+        </p>
+      ) : (
+        <p className="text-[10px] text-slate-400 text-center italic">
+          暫無詞義資料
+        </p>
+      )}
+
+      {info?.examples && info.examples.length > 0 && (
+        <ul className="space-y-2">
+          {info.examples.map((example, i) => (
+            <li
+              key={i}
+              className="bg-white/70 px-3 py-2 rounded-lg border border-indigo-50"
+            >
+              <p className="text-xs text-slate-700">{example.sentence}</p>
+              {example.translation && (
+                <p className="text-[10px] text-slate-400 mt-0.5">
+                  {example.translation}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WordInsightsPanel;
@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { GridSettings } from "../types";
+import { loadStrokeData } from "../services/strokeDataService";
+import { formatReading, getTextReadings } from "../services/readingService";
+import {
+  WorksheetEntry,
+  buildWorksheetPages,
+  downloadWorksheetSvg,
+  getWorksheetFilename,
+  getWorksheetTitle,
+  printWorksheet,
+} from "../services/worksheetService";
+
+interface WorksheetDialogProps {
+  text: string;
+  isSimplified: boolean;
+  grid: GridSettings;
+  onClose: () => void;
+}
+
+const WorksheetDialog: React.FC<WorksheetDialogProps> = ({
+  text,
+  isSimplified,
+  grid,
+  onClose,
+}) => {
+  const [entries, setEntries] = useState<WorksheetEntry[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [tracedCells, setTracedCells] = useState(4);
+  const [showStrokeOrder, setShowStrokeOrder] = useState(true);
+
+  const chars = useMemo(
+    () => [...new Set(text.split("").filter((c) => /\p{Script=Han}/u.test(c)))],
+    [text]
+  );
+
+  // 讀音以整段文字一次查詢 (依上下文判斷破音字)，筆順逐字載入
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const textChars = text.split("").filter((c) => /\S/.test(c));
+      const readings = await getTextReadings(textChars, isSimplified);
+      if (cancelled) return;
+      const loaded: WorksheetEntry[] = [];
+      const notFound: string[] = [];
+      for (const char of chars) {
+        const data = await loadStrokeData(char);
+        if (data) {
+          // 同一個字出現多次時採第一次出現的讀音
+          const reading = readings[textChars.indexOf(char)] ?? null;
+          loaded.push({
+            char,
+            data,
+            pinyin: formatReading(reading, "pinyin") || undefined,
+            zhuyin: formatReading(reading, "zhuyin") || undefined,
+          });
+        } else {
+          notFound.push(char);
+        }
+        if (cancelled) return;
+        setProgress(loaded.length + notFound.length);
+      }
+      if (cancelled) return;
+      setEntries(loaded);
+      setMissing(notFound);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [text, chars, isSimplified]);
+
+  const isLoading = progress < chars.length;
+  const pages = useMemo(
+    () =>
+      buildWorksheetPages(entries, {
+        grid,
+        title: getWorksheetTitle(text),
+        tracedCells,
+        showStrokeOrder,
+      }),
+    [entries, grid, text, tracedCells, showStrokeOrder]
+  );
+
+  const handlePrint = () => {
+    try {
+      printWorksheet(pages, getWorksheetTitle(text));
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-full flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <h3 className="text-sm font-bold text-slate-700">列印練習單</h3>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 px-6 py-3 border-b border-slate-100 text-xs font-bold text-slate-500">
+          <label className="flex items-center gap-2">
+            描紅格
+            <input
+              type="number"
+              min="0"
+              max="10"
+              value={tracedCells}
+              onChange={(e) =>
+                setTracedCells(Math.max(0, Math.min(10, Number(e.target.value))))
+              }
+              className="w-14 border border-slate-200 rounded-lg px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showStrokeOrder}
+              onChange={(e) => setShowStrokeOrder(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            筆順分解
+          </label>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => downloadWorksheetSvg(pages, getWorksheetFilename(text))}
+              disabled={isLoading || entries.length === 0}
+              className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl hover:bg-white disabled:opacity-40 transition-all"
+            >
+              下載 SVG
+            </button>
+            <button
+              onClick={handlePrint}
+              disabled={isLoading || entries.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 disabled:opacity-40 transition-all"
+            >
+              列印 / PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto bg-slate-100 p-6">
+          {isLoading ? (
+            <p className="text-center text-xs font-bold text-slate-400 py-12">
+              載入筆順資料中… {progress} / {chars.length}
+            </p>
+          ) : (
+            <div className="flex flex-col items-center gap-4">
+              {missing.length > 0 && (
+                <p className="text-xs font-bold text-rose-500">
+                  找不到以下字的筆順資料，已略過：{missing.join("")}
+                </p>
+              )}
+              {pages.map((page, i) => (
+                <div
+                  key={i}
+                  className="bg-white shadow-sm w-full max-w-[595px] [&>svg]:w-full [&>svg]:h-auto"
+                  dangerouslySetInnerHTML={{ __html: page }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorksheetDialog;
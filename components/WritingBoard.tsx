@@ -1,5 +1,39 @@
-import React, { useEffect, useRef, useCallback } from "react";
-import { PracticeMode } from "../types";
+import React, { useEffect, useRef, useCallback, useState } from "react";
+import HanziWriter from "hanzi-writer";
+import PracticeGrid from "./PracticeGrid";
+import {
+  AttemptStroke,
+  FreehandResult,
+  GridSettings,
+  InkPoint,
+  InkStroke,
+  PracticeMode,
+  QuizResult,
+  WritingAttempt,
+} from "../types";
+import { DEFAULT_GRID_SETTINGS } from "../services/gridService";
+import { QuizTracker, HINT_AFTER_MISSES } from "../services/quizService";
+import { gradeFreehand } from "../services/freehandService";
+import { createAttemptId } from "../services/attemptLogService";
+import {
+  StrokeDataJson,
+  getStrokeComponents,
+  getStrokeTransform,
+  strokeDataLoader,
+  toStrokeSpace,
+} from "../services/strokeDataService";
+
+const HIGHLIGHT_COLOR = "#aaaaff"; // HanziWriter 預設提示顏色
+const RADICAL_COLOR = "#e11d48"; // 部首顏色 (玫瑰紅)
+const RADICAL_HINT_COLOR = "#fda4af";
+const CURRENT_STROKE_COLOR = "#4f46e5"; // 暫停時目前筆劃 (靛藍)
+const COMPONENT_COLORS = ["#0ea5e9", "#10b981", "#f59e0b", "#8b5cf6"];
+const INK_COLOR = "#334155";
+const INK_WIDTH = 68; // 筆順資料座標，約等於 HanziWriter 的 drawingWidth
+const GRADE_COLORS = { ok: "#10b981", issue: "#f59e0b", missing: "#e11d48" };
+// 速度 1 時筆劃之間與每輪示範結束後的停頓 (毫秒)，依播放速度縮放
+const STROKE_DELAY_MS = 300;
+const LOOP_DELAY_MS = 1500;
 
 interface WritingBoardProps {
   character: string;
@@ -7,6 +41,20 @@ interface WritingBoardProps {
   speed: number;
   size?: number;
   onComplete?: () => void;
+  onQuizResult?: (result: QuizResult) => void;
+  highlightRadical?: boolean;
+  highlightComponents?: boolean;
+  grid?: GridSettings;
+  // 示範模式的播放控制：暫停時以 strokeIndex 指定顯示到第幾筆
+  isPlaying?: boolean;
+  strokeIndex?: number;
+  onStrokeProgress?: (completed: number, total: number) => void;
+  onFreehandResult?: (result: FreehandResult) => void;
+  // 每次書寫嘗試結束 (完成、重寫或換字) 時送出含原始筆跡的紀錄
+  onAttempt?: (attempt: WritingAttempt) => void;
+  // 考試模式：隱藏外框、調整提示門檻 (false 為不提示)
+  showOutline?: boolean;
+  hintAfterMisses?: number | false;
 }
 
 const WritingBoard: React.FC<WritingBoardProps> = ({
@@ -15,64 +63,383 @@ const WritingBoard: React.FC<WritingBoardProps> = ({
   speed,
   size = 400,
   onComplete,
+  onQuizResult,
+  highlightRadical = false,
+  highlightComponents = false,
+  grid = DEFAULT_GRID_SETTINGS,
+  isPlaying = true,
+  strokeIndex,
+  onStrokeProgress,
+  onFreehandResult,
+  onAttempt,
+  showOutline = true,
+  hintAfterMisses = HINT_AFTER_MISSES,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const writerRef = useRef<any>(null);
+  const writerRef = useRef<HanziWriter | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [charData, setCharData] = useState<StrokeDataJson | null>(null);
+  const [completedStrokes, setCompletedStrokes] = useState(0);
+  const completedRef = useRef(0);
+  // 自由書寫：保留學生的原始筆跡，寫完後再評分
+  const [ink, setInk] = useState<InkStroke[]>([]);
+  const [freehandResult, setFreehandResult] = useState<FreehandResult | null>(null);
+  const activeStrokeRef = useRef<InkStroke | null>(null);
+  // 目前這一筆落筆事件的 event.timeStamp，筆跡點的 t 以此為起點
+  const strokeOriginRef = useRef(0);
+  const inkRef = useRef<InkStroke[]>([]);
+  inkRef.current = ink;
+  // 目前這次書寫嘗試的紀錄；測驗的原始筆跡直接累積在 strokes 中
+  const attemptRef = useRef<{
+    id: string;
+    char: string;
+    mode: WritingAttempt["mode"];
+    startedAt: number;
+    strokes: AttemptStroke[];
+    emitted: boolean;
+  } | null>(null);
+
+  // 回呼存放於 ref，避免父元件重新渲染時重建 writer 而清空書寫內容
+  const onCompleteRef = useRef(onComplete);
+  const onQuizResultRef = useRef(onQuizResult);
+  const onStrokeProgressRef = useRef(onStrokeProgress);
+  const onFreehandResultRef = useRef(onFreehandResult);
+  onCompleteRef.current = onComplete;
+  onQuizResultRef.current = onQuizResult;
+  onStrokeProgressRef.current = onStrokeProgress;
+  onFreehandResultRef.current = onFreehandResult;
+  const onAttemptRef = useRef(onAttempt);
+  onAttemptRef.current = onAttempt;
+  // 示範播放中調整速度時，下一個停頓就套用新的速度
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+
+  const padding = size * 0.05;
+
+  const emitAttempt = useCallback((isComplete: boolean, score?: number) => {
+    const log = attemptRef.current;
+    if (!log || log.emitted) return;
+    const strokes = log.mode === "freehand" ? inkRef.current : log.strokes;
+    if (strokes.length === 0) return;
+    log.emitted = true;
+    onAttemptRef.current?.({
+      id: log.id,
+      char: log.char,
+      mode: log.mode,
+      strokes,
+      isComplete,
+      score,
+      startedAt: log.startedAt,
+      completedAt: Date.now(),
+    });
+  }, []);
+
+  const updateCompleted = useCallback((completed: number, total: number) => {
+    completedRef.current = completed;
+    setCompletedStrokes(completed);
+    onStrokeProgressRef.current?.(completed, total);
+  }, []);
 
   const initWriter = useCallback(() => {
-    if (!containerRef.current || !window.HanziWriter) return;
+    if (!containerRef.current || !character) return;
 
     containerRef.current.innerHTML = "";
+    setLoadError(null);
+    setCharData(null);
 
+    let radicalStrokes: number[] = [];
     const options = {
       width: size,
       height: size,
-      padding: size * 0.05,
+      padding,
       strokeAnimationSpeed: speed * 0.5, // 降低基礎速度倍率 (原 1.5 -> 0.5)
-      delayBetweenStrokes: 300,
+      delayBetweenStrokes: STROKE_DELAY_MS / speed,
       strokeColor: "#000000", // 已完成筆劃顏色 (黑)
+      radicalColor: highlightRadical ? RADICAL_COLOR : null, // 部首顏色
+      highlightColor: HIGHLIGHT_COLOR,
       outlineColor: "#e2e8f0", // 外框顏色 (灰)
       drawingColor: "#334155", // 使用者書寫顏色 (深灰黑)
       drawingWidth: size * 0.06,
-      showOutline: true,
+      showOutline,
       showCharacter: false,
+      charDataLoader: strokeDataLoader,
+      onLoadCharDataSuccess: (data: StrokeDataJson) => {
+        if (writerRef.current !== writer) return;
+        radicalStrokes = getStrokeComponents(data).radical;
+        setCharData(data);
+      },
+      onLoadCharDataError: (error?: Error | string) => {
+        if (writerRef.current !== writer) return;
+        console.error("Stroke Data Error:", error);
+        setLoadError(`找不到「${character}」的筆順資料`);
+      },
     };
 
-    const writer = window.HanziWriter.create(
-      containerRef.current,
-      character,
-      options
-    );
+    const writer = HanziWriter.create(containerRef.current, character, options);
     writerRef.current = writer;
 
-    if (role === "viewer") {
-      // 示範模式：循環播放
-      const loop = () => {
-        // 確保只對當前有效的 writer 進行操作
-        if (writerRef.current === writer) {
-          writer.animateCharacter({
-            onComplete: () => {
-              if (writerRef.current === writer) {
-                setTimeout(loop, 1500);
-              }
-            },
-          });
+    if (role === "quiz") {
+      // 練習模式：啟動測驗，並記錄每一筆的錯誤與耗時
+      const tracker = new QuizTracker(character, hintAfterMisses);
+      const log = {
+        id: createAttemptId(),
+        char: character,
+        mode: "quiz" as const,
+        startedAt: Date.now(),
+        strokes: [] as AttemptStroke[],
+        emitted: false,
+      };
+      attemptRef.current = log;
+      // 將 HanziWriter 的判定標在最近一筆原始筆跡上，沒有筆跡時改用它的取樣點
+      const annotateStroke = (
+        strokeNum: number,
+        isCorrect: boolean,
+        drawnPoints: { x: number; y: number }[]
+      ) => {
+        const last = log.strokes[log.strokes.length - 1];
+        if (last && last.strokeNum === undefined) {
+          last.strokeNum = strokeNum;
+          last.isCorrect = isCorrect;
+          return;
         }
+        log.strokes.push({
+          startedAt: Date.now(),
+          points: drawnPoints.map(({ x, y }) => ({ x, y, t: 0 })),
+          strokeNum,
+          isCorrect,
+        });
       };
-      loop();
-    } else {
-      // 練習模式：啟動測驗
       writer.quiz({
+        showHintAfterMisses: hintAfterMisses,
+        onMistake: (strokeData) => {
+          tracker.recordMistake(strokeData.strokeNum);
+          annotateStroke(strokeData.strokeNum, false, strokeData.drawnPath.points);
+          // 提示在 onMistake 之後才繪製，先切換提示顏色讓部首筆劃以部首色提示
+          if (highlightRadical) {
+            const isRadicalStroke = radicalStrokes.includes(strokeData.strokeNum);
+            writer.updateColor(
+              "highlightColor",
+              isRadicalStroke ? RADICAL_HINT_COLOR : HIGHLIGHT_COLOR,
+              { duration: 0 }
+            );
+          }
+        },
+        onCorrectStroke: (strokeData) => {
+          tracker.recordCorrectStroke(strokeData.strokeNum);
+          annotateStroke(strokeData.strokeNum, true, strokeData.drawnPath.points);
+        },
         onComplete: () => {
-          if (onComplete) onComplete();
+          if (writerRef.current !== writer) return;
+          const result = tracker.finish();
+          emitAttempt(true, result.accuracy);
+          onQuizResultRef.current?.(result);
+          onCompleteRef.current?.();
         },
       });
     }
-  }, [character, role, speed, size, onComplete]);
+  }, [
+    character,
+    role,
+    speed,
+    size,
+    highlightRadical,
+    showOutline,
+    hintAfterMisses,
+    emitAttempt,
+  ]);
+
+  // 示範模式：逐筆播放，已完成的筆劃由下方的靜態圖層顯示，暫停時可停在任一筆
+  useEffect(() => {
+    const writer = writerRef.current;
+    if (role !== "viewer" || !writer || !charData) return;
+
+    const total = charData.strokes.length;
+    writer.hideCharacter({ duration: 0 });
+    if (!isPlaying) return;
+
+    let cancelled = false;
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    const play = async () => {
+      let next = completedRef.current >= total ? 0 : completedRef.current;
+      updateCompleted(next, total);
+      while (!cancelled) {
+        await writer.animateStroke(next);
+        if (cancelled) return;
+        next += 1;
+        updateCompleted(next, total);
+        await wait((next < total ? STROKE_DELAY_MS : LOOP_DELAY_MS) / speedRef.current);
+        if (cancelled) return;
+        if (next >= total) {
+          // 循環播放
+          writer.hideCharacter({ duration: 0 });
+          next = 0;
+          updateCompleted(0, total);
+        }
+      }
+    };
+    play();
+    return () => {
+      cancelled = true;
+    };
+  }, [role, isPlaying, charData, updateCompleted]);
+
+  // 暫停時由外部控制顯示到第幾筆 (上一筆 / 下一筆)
+  useEffect(() => {
+    if (role !== "viewer" || isPlaying || !charData) return;
+    if (strokeIndex === undefined || strokeIndex === completedRef.current) return;
+    const total = charData.strokes.length;
+    updateCompleted(Math.max(0, Math.min(total, strokeIndex)), total);
+  }, [role, isPlaying, strokeIndex, charData, updateCompleted]);
+
+  const strokeScale = (size - 2 * padding) / 1024;
+  const toBoardPixels = ([x, y]: number[]) => ({
+    x: padding + x * strokeScale,
+    y: size - padding - 124 * strokeScale - y * strokeScale,
+  });
+
+  // t 以各事件自己的時間戳記計算，合併的事件也保有實際的時間間隔
+  const getInkPoint = (
+    rect: DOMRect,
+    event: PointerEvent,
+    originTimeStamp: number
+  ): InkPoint => {
+    const { x, y } = toStrokeSpace(
+      size,
+      padding,
+      event.clientX - rect.left,
+      event.clientY - rect.top
+    );
+    const point: InkPoint = {
+      x,
+      y,
+      t: Math.max(0, event.timeStamp - originTimeStamp),
+    };
+    // 滑鼠沒有真正的壓力值 (按下時固定為 0.5)
+    if (event.pointerType !== "mouse" && event.pressure > 0) {
+      point.pressure = event.pressure;
+    }
+    return point;
+  };
+
+  const handleInkStart = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (freehandResult || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const now = Date.now();
+    if (!attemptRef.current) {
+      attemptRef.current = {
+        id: createAttemptId(),
+        char: character,
+        mode: "freehand",
+        startedAt: now,
+        strokes: [],
+        emitted: false,
+      };
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const stroke: InkStroke = {
+      startedAt: now,
+      points: [getInkPoint(rect, e.nativeEvent, e.nativeEvent.timeStamp)],
+    };
+    activeStrokeRef.current = stroke;
+    strokeOriginRef.current = e.nativeEvent.timeStamp;
+    setInk((prev) => [...prev, stroke]);
+  };
+
+  // 取回瀏覽器合併掉的中間點，保留完整的原始軌跡
+  const collectInkPoints = (e: React.PointerEvent<Element>): InkPoint[] => {
+    const coalesced = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    const events = coalesced.length > 0 ? coalesced : [e.nativeEvent];
+    const rect = e.currentTarget.getBoundingClientRect();
+    return events.map((event) =>
+      getInkPoint(rect, event, strokeOriginRef.current)
+    );
+  };
+
+  const handleInkMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const active = activeStrokeRef.current;
+    if (!active) return;
+    const stroke: InkStroke = {
+      ...active,
+      points: [...active.points, ...collectInkPoints(e)],
+    };
+    activeStrokeRef.current = stroke;
+    setInk((prev) => [...prev.slice(0, -1), stroke]);
+  };
+
+  const handleInkEnd = () => {
+    activeStrokeRef.current = null;
+  };
+
+  const handleInkUndo = () => setInk((prev) => prev.slice(0, -1));
+
+  const handleInkClear = () => {
+    emitAttempt(false);
+    attemptRef.current = null;
+    setInk([]);
+    setFreehandResult(null);
+  };
+
+  // 測驗模式：HanziWriter 只回報判定結果，另外在外層記錄原始筆跡 (不攔截事件)
+  const quizStrokeRef = useRef<AttemptStroke | null>(null);
+
+  const handleQuizPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const log = attemptRef.current;
+    if (role !== "quiz" || !log || e.button !== 0) return;
+    const now = Date.now();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const stroke: AttemptStroke = {
+      startedAt: now,
+      points: [getInkPoint(rect, e.nativeEvent, e.nativeEvent.timeStamp)],
+    };
+    log.strokes.push(stroke);
+    quizStrokeRef.current = stroke;
+    strokeOriginRef.current = e.nativeEvent.timeStamp;
+  };
+
+  const handleQuizPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const stroke = quizStrokeRef.current;
+    if (!stroke) return;
+    stroke.points.push(...collectInkPoints(e));
+  };
+
+  const handleQuizPointerUp = () => {
+    quizStrokeRef.current = null;
+  };
+
+  const handleGrade = () => {
+    if (!charData || ink.length === 0) return;
+    const result = gradeFreehand(
+      character,
+      ink,
+      charData.medians,
+      attemptRef.current?.startedAt ?? Date.now()
+    );
+    setFreehandResult(result);
+    emitAttempt(true, result.score);
+    onFreehandResultRef.current?.(result);
+  };
+
+  const getInkColor = (index: number) => {
+    if (!freehandResult) return INK_COLOR;
+    const grade = freehandResult.strokes.find((s) => s.drawnIndex === index);
+    if (!grade) return GRADE_COLORS.missing;
+    return grade.issues.length > 0 ? GRADE_COLORS.issue : INK_COLOR;
+  };
+
+  const radicalStrokeNums =
+    highlightRadical && charData ? getStrokeComponents(charData).radical : [];
+
+  // 部件色塊會畫出整個字形，只在示範時顯示，避免練習 (尤其聽寫) 時洩漏答案
+  const componentGroups =
+    role === "viewer" && highlightComponents && charData
+      ? getStrokeComponents(charData).components
+      : [];
 
   useEffect(() => {
     initWriter();
     return () => {
+      // 測驗中途重新建立 (換字、調整設定) 時保存未完成的嘗試
+      if (attemptRef.current?.mode === "quiz") emitAttempt(false);
       if (writerRef.current) {
         writerRef.current.cancelQuiz();
         // writerRef.current.cancelAnimation(); // HanziWriter 沒有這個方法，移除以避免錯誤
@@ -81,55 +448,195 @@ const WritingBoard: React.FC<WritingBoardProps> = ({
         }
       }
     };
-  }, [initWriter]);
+  }, [initWriter, emitAttempt]);
+
+  useEffect(() => () => emitAttempt(false), [emitAttempt]);
 
   return (
     <div className="relative flex flex-col items-center bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+      {/* 輔助格線背景 */}
+      <PracticeGrid settings={grid} />
+
+      {/* 部件色塊：畫在寫字板下層，作為動畫與書寫的底色 */}
+      {componentGroups.length > 1 && charData && (
+        <svg
+          className="absolute inset-0 pointer-events-none"
+          width={size}
+          height={size}
+        >
+          <g transform={getStrokeTransform(size, size * 0.05)}>
+            {componentGroups.map((strokes, groupIndex) =>
+              strokes.map((strokeNum) => (
+                <path
+                  key={strokeNum}
+                  d={charData.strokes[strokeNum]}
+                  fill={COMPONENT_COLORS[groupIndex % COMPONENT_COLORS.length]}
+                  opacity={0.18}
+                />
+              ))
+            )}
+          </g>
+        </svg>
+      )}
+
       <div
         ref={containerRef}
         style={{ width: size, height: size }}
-        className="select-none touch-none"
+        onPointerDown={handleQuizPointerDown}
+        onPointerMove={handleQuizPointerMove}
+        onPointerUp={handleQuizPointerUp}
+        onPointerLeave={handleQuizPointerUp}
+        onPointerCancel={handleQuizPointerUp}
+        className="relative select-none touch-none"
       />
 
-      {/* 輔助米字格背景 */}
-      <div className="absolute inset-0 pointer-events-none opacity-[0.03]">
-        <svg width="100%" height="100%" viewBox="0 0 100 100">
-          <line
-            x1="0"
-            y1="50"
-            x2="100"
-            y2="50"
-            stroke="black"
-            strokeWidth="1"
-          />
-          <line
-            x1="50"
-            y1="0"
-            x2="50"
-            y2="100"
-            stroke="black"
-            strokeWidth="1"
-          />
-          <line
-            x1="0"
-            y1="0"
-            x2="100"
-            y2="100"
-            stroke="black"
-            strokeWidth="0.5"
-            strokeDasharray="2"
-          />
-          <line
-            x1="100"
-            y1="0"
-            x2="0"
-            y2="100"
-            stroke="black"
-            strokeWidth="0.5"
-            strokeDasharray="2"
-          />
+      {/* 自由書寫：評分後以顏色標出參考筆劃，並保留學生的原始筆跡 */}
+      {role === "freehand" && (
+        <svg
+          className="absolute inset-0 touch-none cursor-crosshair"
+          width={size}
+          height={size}
+          onPointerDown={handleInkStart}
+          onPointerMove={handleInkMove}
+          onPointerUp={handleInkEnd}
+          onPointerCancel={handleInkEnd}
+        >
+          <g transform={getStrokeTransform(size, padding)}>
+            {freehandResult &&
+              charData &&
+              freehandResult.strokes.map((grade) => (
+                <path
+                  key={grade.strokeNum}
+                  d={charData.strokes[grade.strokeNum]}
+                  fill={
+                    grade.drawnIndex === null
+                      ? GRADE_COLORS.missing
+                      : grade.issues.length > 0
+                      ? GRADE_COLORS.issue
+                      : GRADE_COLORS.ok
+                  }
+                  opacity={0.3}
+                />
+              ))}
+            {ink.map((stroke, index) => (
+              <polyline
+                key={index}
+                points={stroke.points.map((p) => `${p.x},${p.y}`).join(" ")}
+                fill="none"
+                stroke={getInkColor(index)}
+                strokeWidth={INK_WIDTH}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                opacity={0.85}
+              />
+            ))}
+          </g>
+          {/* 筆劃編號標在參考筆劃起點；方向寫反時在書寫起點加上圓圈 */}
+          {freehandResult &&
+            charData &&
+            freehandResult.strokes.map((grade) => {
+              const label = toBoardPixels(charData.medians[grade.strokeNum][0]);
+              const drawn =
+                grade.drawnIndex !== null ? ink[grade.drawnIndex] : null;
+              const start =
+                drawn && grade.issues.includes("direction")
+                  ? toBoardPixels([drawn.points[0].x, drawn.points[0].y])
+                  : null;
+              const color =
+                grade.drawnIndex === null
+                  ? GRADE_COLORS.missing
+                  : grade.issues.length > 0
+                  ? GRADE_COLORS.issue
+                  : GRADE_COLORS.ok;
+              return (
+                <g key={grade.strokeNum}>
+                  {start && (
+                    <circle
+                      cx={start.x}
+                      cy={start.y}
+                      r={size * 0.025}
+                      fill="none"
+                      stroke={GRADE_COLORS.missing}
+                      strokeWidth={2}
+                    />
+                  )}
+                  <circle cx={label.x} cy={label.y} r={9} fill={color} />
+                  <text
+                    x={label.x}
+                    y={label.y + 3.5}
+                    textAnchor="middle"
+                    fontSize={10}
+                    fontWeight="bold"
+                    fill="#ffffff"
+                  >
+                    {grade.strokeNum + 1}
+                  </text>
+                </g>
+              );
+            })}
         </svg>
-      </div>
+      )}
+
+      {/* 示範模式：已完成的筆劃，暫停時以提示色標出目前這一筆 */}
+      {role === "viewer" && charData && completedStrokes > 0 && (
+        <svg
+          className="absolute inset-0 pointer-events-none"
+          width={size}
+          height={size}
+        >
+          <g transform={getStrokeTransform(size, size * 0.05)}>
+            {charData.strokes.slice(0, completedStrokes).map((d, strokeNum) => (
+              <path
+                key={strokeNum}
+                d={d}
+                fill={
+                  !isPlaying && strokeNum === completedStrokes - 1
+                    ? CURRENT_STROKE_COLOR
+                    : radicalStrokeNums.includes(strokeNum)
+                    ? RADICAL_COLOR
+                    : "#000000"
+                }
+              />
+            ))}
+          </g>
+        </svg>
+      )}
+
+      {loadError && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-white/90 text-center p-4">
+          <span className="text-5xl font-bold text-slate-200">{character}</span>
+          <p className="text-sm font-bold text-rose-500">{loadError}</p>
+          <p className="text-[10px] text-slate-400">
+            請確認網路連線，或安裝離線筆順資料包
+          </p>
+        </div>
+      )}
+
+      {role === "freehand" && charData && (
+        <div className="absolute top-2 right-2 flex gap-1">
+          <button
+            onClick={handleInkUndo}
+            disabled={ink.length === 0 || !!freehandResult}
+            className="px-2 py-0.5 bg-slate-100 rounded text-[10px] font-bold text-slate-500 hover:text-indigo-600 disabled:opacity-40 transition-colors"
+          >
+            復原
+          </button>
+          <button
+            onClick={handleInkClear}
+            disabled={ink.length === 0}
+            className="px-2 py-0.5 bg-slate-100 rounded text-[10px] font-bold text-slate-500 hover:text-rose-600 disabled:opacity-40 transition-colors"
+          >
+            重寫
+          </button>
+          <button
+            onClick={handleGrade}
+            disabled={ink.length === 0 || !!freehandResult}
+            className="px-2 py-0.5 bg-indigo-600 rounded text-[10px] font-bold text-white hover:bg-indigo-700 disabled:opacity-40 transition-colors"
+          >
+            評分
+          </button>
+        </div>
+      )}
 
       <div className="absolute top-2 left-2 px-2 py-0.5 bg-slate-100 rounded text-[10px] font-bold text-slate-400 uppercase tracking-wider">
         {role === "viewer" ? "示範區" : "練習區"}
@@ -0,0 +1,91 @@
+/**
+ * 建立離線字典資料
+ *
+ * 由開放資料產生 public/dictionary/chars.json，供 localDictionaryProvider 查詢
+ * 拼音、注音、部首與筆劃，不需要呼叫 LLM。
+ *
+ * 資料來源：
+ * - CC-CEDICT (cedict-json)：讀音與英文釋義
+ * - hanzi-writer-data：筆劃數 (與寫字板使用的筆順資料一致)
+ * - Unihan (選用)：部首 (kRSUnicode) 與總筆劃 (kTotalStrokes)
+ *
+ * 用法：
+ *   npm run build:dictionary
+ *   npm run build:dictionary -- --unihan path/to/Unihan_IRGSources.txt
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const cedict = require("cedict-json");
+const strokeDataDir = path.dirname(
+  require.resolve("hanzi-writer-data/package.json")
+);
+const outFile = path.resolve("public/dictionary/chars.json");
+
+const unihanIndex = process.argv.indexOf("--unihan");
+const unihanFile = unihanIndex !== -1 ? process.argv[unihanIndex + 1] : null;
+
+const dictionary = {};
+const isVariantOnly = (english) =>
+  english.every((gloss) => /variant of|surname/i.test(gloss));
+
+// 正體/主要讀音排在前面，異體與姓氏讀音排在後面
+const addEntry = (char, entry, preferred) => {
+  const current = (dictionary[char] ||= { main: [], other: [], m: [] });
+  const pinyin = entry.pinyin.toLowerCase();
+  const readings = preferred ? current.main : current.other;
+  if (!readings.includes(pinyin)) readings.push(pinyin);
+  if (preferred && current.m.length < 4) {
+    current.m.push(...entry.english.slice(0, 4 - current.m.length));
+  }
+};
+
+for (const entry of cedict) {
+  if ([...entry.traditional].length !== 1) continue;
+  const preferred =
+    !/^[A-Z]/.test(entry.pinyin) && !isVariantOnly(entry.english);
+  addEntry(entry.traditional, entry, preferred);
+  if (entry.simplified !== entry.traditional) {
+    addEntry(entry.simplified, entry, preferred);
+  }
+}
+
+for (const [char, { main, other, m }] of Object.entries(dictionary)) {
+  const info = {
+    p: [...main, ...other.filter((pinyin) => !main.includes(pinyin))],
+  };
+  if (m.length > 0) info.m = m.join("; ");
+
+  const strokeFile = path.join(strokeDataDir, `${char}.json`);
+  if (fs.existsSync(strokeFile)) {
+    info.s = JSON.parse(fs.readFileSync(strokeFile, "utf8")).strokes.length;
+  }
+  dictionary[char] = info;
+}
+
+if (unihanFile) {
+  const lines = fs.readFileSync(unihanFile, "utf8").split("\n");
+  for (const line of lines) {
+    const [code, field, value] = line.split("\t");
+    if (!value) continue;
+    const char = String.fromCodePoint(parseInt(code.slice(2), 16));
+    const info = dictionary[char];
+    if (!info) continue;
+
+    if (field === "kRSUnicode") {
+      // 例："85.2" → 第 85 部 (水)；簡化部首 "120'.3" 仍以康熙部首表示
+      const radicalNum = parseInt(value.split(" ")[0], 10);
+      info.r = String.fromCodePoint(0x2f00 + radicalNum - 1).normalize("NFKC");
+    } else if (field === "kTotalStrokes" && info.s === undefined) {
+      info.s = parseInt(value.split(" ")[0], 10);
+    }
+  }
+}
+
+fs.mkdirSync(path.dirname(outFile), { recursive: true });
+fs.writeFileSync(outFile, JSON.stringify(dictionary));
+console.log(
+  `已建立 ${Object.keys(dictionary).length} 字的字典資料：${outFile}`
+);
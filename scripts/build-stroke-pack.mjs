@@ -0,0 +1,70 @@
+/**
+ * 建立離線筆順資料包
+ *
+ * 將 hanzi-writer-data 中的筆順 JSON 複製到 public/hanzi-data，
+ * 讓 strokeDataService 的 local 資料包可以在無網路時直接從本站讀取。
+ *
+ * 用法：
+ *   npm run build:strokes                 # 複製全部字 (約 9,500 字)
+ *   npm run build:strokes -- list.txt     # 只複製清單中的字，例如 4,808 常用字表
+ *   npm run build:strokes -- --mmah dictionary.txt   # 合併 Make Me a Hanzi 的部件資料
+ *
+ * 清單檔為純文字，會取出其中所有的中文字 (空白、換行、標點皆忽略)。
+ * --mmah 指向 Make Me a Hanzi 的 dictionary.txt，會把每一筆的部件對應 (matches)
+ * 與拆字 (decomposition) 寫入資料包，供寫字板標示部件。
+ */
+import fs from "node:fs";
+import path from "node:path";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+const sourceDir = path.dirname(require.resolve("hanzi-writer-data/package.json"));
+const outDir = path.resolve("public/hanzi-data");
+
+const args = process.argv.slice(2);
+const mmahIndex = args.indexOf("--mmah");
+const mmahFile = mmahIndex !== -1 ? args.splice(mmahIndex, 2)[1] : null;
+const listFile = args[0];
+
+// character → { matches, decomposition }
+const decompositions = {};
+if (mmahFile) {
+  for (const line of fs.readFileSync(mmahFile, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    const { character, matches, decomposition } = JSON.parse(line);
+    decompositions[character] = { matches, decomposition };
+  }
+}
+let chars;
+if (listFile) {
+  const text = fs.readFileSync(listFile, "utf8");
+  chars = [...new Set(text.match(/\p{Script=Han}/gu) || [])];
+} else {
+  chars = fs
+    .readdirSync(sourceDir)
+    .filter((file) => file.endsWith(".json") && file !== "package.json")
+    .map((file) => file.replace(/\.json$/, ""));
+}
+
+fs.mkdirSync(outDir, { recursive: true });
+
+const missing = [];
+for (const char of chars) {
+  const source = path.join(sourceDir, `${char}.json`);
+  if (!fs.existsSync(source)) {
+    missing.push(char);
+    continue;
+  }
+  const target = path.join(outDir, `${char}.json`);
+  if (decompositions[char]) {
+    const data = JSON.parse(fs.readFileSync(source, "utf8"));
+    fs.writeFileSync(target, JSON.stringify({ ...data, ...decompositions[char] }));
+  } else {
+    fs.copyFileSync(source, target);
+  }
+}
+
+console.log(`已複製 ${chars.length - missing.length} 字的筆順資料到 ${outDir}`);
+if (missing.length > 0) {
+  console.warn(`缺少 ${missing.length} 字的筆順資料：${missing.join("")}`);
+}
@@ -0,0 +1,72 @@
+/**
+ * 本機測試用的簡易 LRS
+ *
+ * 接受 POST {base}/statements，將陳述保存在記憶體並印出摘要；
+ * GET {base}/statements 回傳目前收到的全部陳述。不做驗證，只供開發測試。
+ *
+ * 用法：
+ *   npm run mock:lrs            # http://localhost:8787/xapi
+ *   npm run mock:lrs -- 9000    # 改用其他連接埠
+ */
+import http from "node:http";
+import { randomUUID } from "node:crypto";
+
+const port = Number(process.argv[2]) || 8787;
+const statements = [];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Experience-API-Version",
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    ...corsHeaders,
+    "Content-Type": "application/json",
+    "X-Experience-API-Version": "1.0.3",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (!url.pathname.endsWith("/statements")) return send(res, 404, { error: "Not found" });
+
+  if (req.method === "GET") {
+    return send(res, 200, { statements, more: "" });
+  }
+  if (req.method !== "POST" && req.method !== "PUT") {
+    return send(res, 405, { error: "Method not allowed" });
+  }
+
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return send(res, 400, { error: "Invalid JSON" });
+    }
+    const batch = (Array.isArray(payload) ? payload : [payload]).map((s) => ({
+      ...s,
+      id: s.id || randomUUID(),
+      stored: new Date().toISOString(),
+    }));
+    statements.push(...batch);
+    batch.forEach((s) =>
+      console.log(
+        `${s.timestamp ?? s.stored}  ${s.actor?.name ?? "?"}  ${s.verb?.display?.["en-US"] ?? s.verb?.id}  ${Object.values(s.object?.definition?.name ?? {})[0] ?? s.object?.id}  ${s.result?.score?.raw ?? ""}`
+      )
+    );
+    console.log(`+${batch.length} (共 ${statements.length} 筆)`);
+    send(res, 200, batch.map((s) => s.id));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock LRS: http://localhost:${port}/xapi`);
+});
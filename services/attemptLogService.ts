@@ -0,0 +1,216 @@
+import { AttemptStroke, WritingAttempt } from "../types";
+import { STORES, idbDelete, idbGetByPrefix, idbPut } from "./idbStore";
+
+/**
+ * 書寫紀錄服務
+ *
+ * 每次測驗或自由書寫都會留下含原始筆跡的時間戳紀錄 (存於 IndexedDB)，
+ * 可在本機重播，也能匯出成 JSON 交給老師、再由老師匯入檢閱。
+ * 紀錄以「學習者 id:紀錄 id」為鍵各自分開，每位學習者只保留最近 MAX_ATTEMPTS 筆。
+ */
+
+const EXPORT_FORMAT = "zenscribe-attempts";
+const EXPORT_VERSION = 1;
+
+interface AttemptExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  attempts: WritingAttempt[];
+}
+
+const MAX_ATTEMPTS = 300;
+// 每儲存幾筆才檢查一次是否超過上限 (檢查需讀出該學習者的所有筆跡)
+const PRUNE_EVERY = 20;
+// 加入學習者之前的紀錄沒有前綴，第一次讀取時歸給預設學習者
+const LEGACY_PROFILE_ID = "default";
+
+const attemptKey = (profileId: string, id: string) => `${profileId}:${id}`;
+
+export const createAttemptId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+let migration: Promise<void> | null = null;
+
+const migrateLegacyAttempts = () => {
+  if (!migration) {
+    migration = (async () => {
+      const entries = await idbGetByPrefix<WritingAttempt>(STORES.attempts, "");
+      for (const [key, attempt] of entries) {
+        if (key.includes(":")) continue;
+        await idbPut(STORES.attempts, attemptKey(LEGACY_PROFILE_ID, attempt.id), attempt);
+        await idbDelete(STORES.attempts, key);
+      }
+    })().catch((error) => {
+      console.error("Attempt Log Error:", error);
+    });
+  }
+  return migration;
+};
+
+const getProfileAttempts = async (profileId: string) => {
+  await migrateLegacyAttempts();
+  const entries = await idbGetByPrefix<WritingAttempt>(
+    STORES.attempts,
+    attemptKey(profileId, "")
+  );
+  return entries
+    .map(([, attempt]) => attempt)
+    .sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// 超過上限時刪除最舊的紀錄
+const pruneAttempts = async (profileId: string, attempts: WritingAttempt[]) => {
+  const overflow = attempts.slice(MAX_ATTEMPTS);
+  await Promise.all(
+    overflow.map((attempt) => idbDelete(STORES.attempts, attemptKey(profileId, attempt.id)))
+  );
+  return attempts.slice(0, MAX_ATTEMPTS);
+};
+
+let savesSincePrune = 0;
+
+export const saveAttempt = async (attempt: WritingAttempt, profileId: string) => {
+  try {
+    await idbPut(STORES.attempts, attemptKey(profileId, attempt.id), attempt);
+    savesSincePrune += 1;
+    if (savesSincePrune >= PRUNE_EVERY) {
+      savesSincePrune = 0;
+      await pruneAttempts(profileId, await getProfileAttempts(profileId));
+    }
+  } catch (error) {
+    console.error("Attempt Log Error:", error);
+  }
+};
+
+export const deleteAttempt = async (id: string, profileId: string) => {
+  try {
+    await idbDelete(STORES.attempts, attemptKey(profileId, id));
+  } catch (error) {
+    console.error("Attempt Log Error:", error);
+  }
+};
+
+/**
+ * 刪除學習者時一併刪除其書寫紀錄
+ */
+export const deleteProfileAttempts = async (profileId: string) => {
+  try {
+    const attempts = await getProfileAttempts(profileId);
+    await Promise.all(attempts.map((attempt) => deleteAttempt(attempt.id, profileId)));
+  } catch (error) {
+    console.error("Attempt Log Error:", error);
+  }
+};
+
+/**
+ * 取得學習者的書寫紀錄 (新的在前)，指定 char 時只取該字
+ */
+export const listAttempts = async (
+  profileId: string,
+  char?: string
+): Promise<WritingAttempt[]> => {
+  try {
+    const attempts = await pruneAttempts(profileId, await getProfileAttempts(profileId));
+    return attempts.filter((attempt) => !char || attempt.char === char);
+  } catch (error) {
+    console.error("Attempt Log Error:", error);
+    return [];
+  }
+};
+
+/**
+ * 重播時間軸：以第一筆落筆為起點，回傳每一筆的起始偏移 (毫秒) 與總長度
+ */
+export const getAttemptTimeline = (attempt: WritingAttempt) => {
+  const origin = attempt.strokes[0]?.startedAt ?? attempt.startedAt;
+  const offsets = attempt.strokes.map((stroke) => stroke.startedAt - origin);
+  const duration = attempt.strokes.reduce((max, stroke, i) => {
+    const last = stroke.points[stroke.points.length - 1];
+    return Math.max(max, offsets[i] + (last?.t ?? 0));
+  }, 0);
+  return { offsets, duration };
+};
+
+export const exportAttempts = (attempts: WritingAttempt[]) => {
+  const data: AttemptExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    attempts,
+  };
+  return JSON.stringify(data);
+};
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isInkPoint = (value: unknown) =>
+  isRecord(value) && isNumber(value.x) && isNumber(value.y) && isNumber(value.t);
+
+const isAttemptStroke = (value: unknown): value is AttemptStroke =>
+  isRecord(value) &&
+  isNumber(value.startedAt) &&
+  Array.isArray(value.points) &&
+  value.points.every(isInkPoint);
+
+const isWritingAttempt = (value: unknown): value is WritingAttempt =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.char === "string" &&
+  (value.mode === "quiz" || value.mode === "freehand") &&
+  isNumber(value.startedAt) &&
+  isNumber(value.completedAt) &&
+  Array.isArray(value.strokes) &&
+  value.strokes.every(isAttemptStroke);
+
+/**
+ * 解析匯出的 JSON，格式不符時丟出錯誤
+ */
+export const parseAttempts = (text: string): WritingAttempt[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("檔案不是有效的 JSON");
+  }
+  if (!isRecord(data) || data.format !== EXPORT_FORMAT || !Array.isArray(data.attempts)) {
+    throw new Error("不是 ZenScribe 書寫紀錄檔");
+  }
+  if (isNumber(data.version) && data.version > EXPORT_VERSION) {
+    throw new Error("書寫紀錄檔版本較新，請先更新程式");
+  }
+  const attempts = data.attempts.filter(isWritingAttempt);
+  if (attempts.length === 0) {
+    throw new Error("檔案中沒有可用的書寫紀錄");
+  }
+  return attempts.map((attempt) => ({
+    ...attempt,
+    isComplete: attempt.isComplete !== false,
+  }));
+};
+
+/**
+ * 匯入書寫紀錄到指定的學習者，回傳匯入筆數 (相同 id 會覆寫)
+ */
+export const importAttempts = async (text: string, profileId: string) => {
+  const attempts = parseAttempts(text);
+  for (const attempt of attempts) {
+    await saveAttempt(attempt, profileId);
+  }
+  return attempts.length;
+};
+
+export const downloadAttempts = (attempts: WritingAttempt[], filename: string) => {
+  const url = URL.createObjectURL(
+    new Blob([exportAttempts(attempts)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
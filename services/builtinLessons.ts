@@ -0,0 +1,55 @@
+import { Lesson } from "../types";
+
+/**
+ * 內建課程
+ *
+ * HSK 一級為完整的 150 詞 (簡體)；TOCFL 與國小各年級為常用字詞節選 (繁體)。
+ * 載入時會依目前字體自動轉換繁簡。
+ */
+
+const HSK1_WORDS = [
+  "爱 八 爸爸 杯子 北京 本 不 不客气 菜 茶 吃 出租车 打电话 大 的 点 电脑 电视 电影 东西 都 读 对不起 多 多少 儿子 二 饭店 飞机 分钟",
+  "高兴 个 工作 狗 汉语 好 号 喝 和 很 后面 回 会 几 家 叫 今天 九 开 看 看见 块 来 老师 了 冷 里 六 妈妈 吗",
+  "买 猫 没关系 没有 米饭 名字 明天 哪 哪儿 那 呢 能 你 年 女儿 朋友 漂亮 苹果 七 前面 钱 请 去 热 人 认识 三 商店 上 上午",
+  "少 谁 什么 十 时候 是 书 水 水果 睡觉 说 四 岁 他 她 太 天气 听 同学 喂 我 我们 五 喜欢 下 下午 下雨 先生 现在 想",
+  "小 小姐 些 写 谢谢 星期 学生 学习 学校 一 一点儿 衣服 医生 医院 椅子 有 月 在 再见 怎么 怎么样 这 中国 中午 住 桌子 字 昨天 坐 做",
+];
+
+const TOCFL_LESSONS: [string, string][] = [
+  ["數字與時間", "一 二 三 四 五 六 七 八 九 十 百 千 今天 明天 昨天 早上 晚上 星期 時候 現在"],
+  ["家人與朋友", "爸爸 媽媽 哥哥 姐姐 弟弟 妹妹 朋友 同學 老師 先生 小姐 孩子"],
+  ["日常生活", "吃飯 喝茶 睡覺 上課 工作 買東西 看書 寫字 說話 喜歡 知道 覺得"],
+  ["地方與交通", "學校 家 商店 飯館 銀行 醫院 公車 捷運 火車 飛機 台北 台灣"],
+];
+
+const ELEMENTARY_LESSONS: [string, string, string][] = [
+  ["國小一年級 (節選)", "數字", "一 二 三 四 五 六 七 八 九 十"],
+  ["國小一年級 (節選)", "大自然", "日 月 山 水 火 木 土 天 雨 風 花 草"],
+  ["國小一年級 (節選)", "身體", "人 口 手 目 耳 足 頭 心 大 小 上 下"],
+  ["國小二年級 (節選)", "學校生活", "學校 老師 同學 教室 書包 鉛筆 作業 上課 下課 考試"],
+  ["國小二年級 (節選)", "四季", "春天 夏天 秋天 冬天 太陽 雲朵 下雪 溫暖 涼快 寒冷"],
+];
+
+export const BUILTIN_LESSONS: Lesson[] = [
+  ...HSK1_WORDS.map((text, i) => ({
+    id: `builtin-hsk1-${i + 1}`,
+    title: `第 ${i + 1} 組`,
+    group: "HSK 一級",
+    text,
+    isBuiltIn: true,
+  })),
+  ...TOCFL_LESSONS.map(([title, text], i) => ({
+    id: `builtin-tocfl-${i + 1}`,
+    title,
+    group: "TOCFL 準備級 (節選)",
+    text,
+    isBuiltIn: true,
+  })),
+  ...ELEMENTARY_LESSONS.map(([group, title, text], i) => ({
+    id: `builtin-elementary-${i + 1}`,
+    title,
+    group,
+    text,
+    isBuiltIn: true,
+  })),
+];
@@ -0,0 +1,168 @@
+import { STORES, idbClear, idbDelete, idbGet, idbGetByPrefix, idbPut } from "./idbStore";
+
+/**
+ * 持久化快取 (IndexedDB)
+ *
+ * Gemini 解析、Gemini 語音與 Cloud TTS 的結果都存在這裡，重新整理後不必再次呼叫 API。
+ * - 鍵值帶有 namespace 與版本號：資料格式改變時調高版本即可讓舊資料失效
+ * - TTL：過期的資料視為不存在並刪除
+ * - 容量上限：超過 maxEntries 時刪除最久未使用的資料 (LRU)，在背景每 EVICT_EVERY 次寫入檢查一次，
+ *   第一次檢查時一併刪除舊版本留下的資料
+ */
+
+const CACHE_SCHEMA_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EVICT_EVERY = 20;
+// 記憶體命中時，距上次更新超過這個時間才寫回最後使用時間
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+interface CacheEntry<T> {
+  value: T;
+  createdAt: number;
+  lastAccessedAt: number;
+  expiresAt: number;
+}
+
+// 清除全部快取時，各快取的記憶體層也要一併重置
+const memoryResetters: (() => void)[] = [];
+
+export interface PersistentCacheOptions {
+  namespace: string;
+  version?: number;
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+export interface PersistentCache<T> {
+  get: (key: string) => Promise<T | null>;
+  set: (key: string, value: T) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+export const createPersistentCache = <T>({
+  namespace,
+  version = 1,
+  ttlMs = 30 * DAY_MS,
+  maxEntries = 500,
+}: PersistentCacheOptions): PersistentCache<T> => {
+  const namespacePrefix = `${namespace}:`;
+  const prefix = `${namespacePrefix}v${CACHE_SCHEMA_VERSION}.${version}:`;
+  // 記憶體層：同一次瀏覽中避免重複讀取 IndexedDB
+  let memory: Record<string, CacheEntry<T>> = {};
+  memoryResetters.push(() => {
+    memory = {};
+  });
+
+  const touch = (key: string, entry: CacheEntry<T>, now: number) => {
+    const touched = { ...entry, lastAccessedAt: now };
+    memory[key] = touched;
+    // 更新最後使用時間供 LRU 判斷，不需等待寫入完成
+    idbPut(STORES.cache, prefix + key, touched).catch(() => {});
+  };
+
+  // 刪除同一 namespace 下其他版本的資料 (每次載入只做一次)
+  let hasPurgedStale = false;
+  const purgeStaleVersions = async () => {
+    if (hasPurgedStale) return;
+    hasPurgedStale = true;
+    const entries = await idbGetByPrefix<CacheEntry<T>>(STORES.cache, namespacePrefix);
+    await Promise.all(
+      entries
+        .filter(([fullKey]) => !fullKey.startsWith(prefix))
+        .map(([fullKey]) => idbDelete(STORES.cache, fullKey))
+    );
+  };
+
+  const evictOverflow = async () => {
+    await purgeStaleVersions();
+    const entries = await idbGetByPrefix<CacheEntry<T>>(STORES.cache, prefix);
+    if (entries.length <= maxEntries) return;
+    const overflow = entries
+      .sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt)
+      .slice(0, entries.length - maxEntries);
+    await Promise.all(
+      overflow.map(([fullKey]) => {
+        delete memory[fullKey.slice(prefix.length)];
+        return idbDelete(STORES.cache, fullKey);
+      })
+    );
+  };
+
+  let writesSinceEviction = EVICT_EVERY - 1; // 第一次寫入就檢查
+  let isEvicting = false;
+  const scheduleEviction = () => {
+    writesSinceEviction += 1;
+    if (writesSinceEviction < EVICT_EVERY || isEvicting) return;
+    writesSinceEviction = 0;
+    isEvicting = true;
+    evictOverflow()
+      .catch((error) => console.warn(`Cache Evict Error (${namespace}):`, error))
+      .finally(() => {
+        isEvicting = false;
+      });
+  };
+
+  return {
+    get: async (key) => {
+      const now = Date.now();
+      const remembered = memory[key];
+      if (remembered && remembered.expiresAt > now) {
+        if (now - remembered.lastAccessedAt > TOUCH_INTERVAL_MS) {
+          touch(key, remembered, now);
+        }
+        return remembered.value;
+      }
+      delete memory[key];
+      if (!hasPurgedStale) {
+        purgeStaleVersions().catch((error) =>
+          console.warn(`Cache Evict Error (${namespace}):`, error)
+        );
+      }
+      try {
+        const entry = await idbGet<CacheEntry<T>>(STORES.cache, prefix + key);
+        if (!entry) return null;
+
+        if (entry.expiresAt <= now) {
+          await idbDelete(STORES.cache, prefix + key);
+          return null;
+        }
+        touch(key, entry, now);
+        return entry.value;
+      } catch (error) {
+        console.warn(`Cache Read Error (${namespace}):`, error);
+        return null;
+      }
+    },
+
+    set: async (key, value) => {
+      const now = Date.now();
+      const entry: CacheEntry<T> = {
+        value,
+        createdAt: now,
+        lastAccessedAt: now,
+        expiresAt: now + ttlMs,
+      };
+      memory[key] = entry;
+      try {
+        await idbPut<CacheEntry<T>>(STORES.cache, prefix + key, entry);
+        scheduleEviction();
+      } catch (error) {
+        console.warn(`Cache Write Error (${namespace}):`, error);
+      }
+    },
+
+    clear: async () => {
+      memory = {};
+      const entries = await idbGetByPrefix<CacheEntry<T>>(STORES.cache, prefix);
+      await Promise.all(entries.map(([fullKey]) => idbDelete(STORES.cache, fullKey)));
+    },
+  };
+};
+
+/**
+ * 清除所有 API 回應快取 (不包含離線筆順資料)
+ */
+export const clearAllCaches = async () => {
+  await idbClear(STORES.cache);
+  memoryResetters.forEach((reset) => reset());
+};
@@ -0,0 +1,12 @@
+/**
+ * 聽寫模式
+ *
+ * 只播放讀音時同音字難以分辨，因此字屬於某個詞時改唸「詞的字」，
+ * 例如「學習的學」；單字詞則直接唸出該字。
+ */
+
+export const getDictationPrompt = (char: string, word: string) =>
+  word.length > 1 && word.includes(char) ? `${word}的${char}` : char;
+
+// 聽寫中尚未揭曉的字在標題與導覽列以此符號代替
+export const HIDDEN_CHAR = "？";
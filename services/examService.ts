@@ -0,0 +1,79 @@
+import {
+  ExamItemResult,
+  ExamItemStatus,
+  ExamSettings,
+  QuizResult,
+  WritingAttempt,
+} from "../types";
+import { calculateAccuracy } from "./quizService";
+
+/**
+ * 考試模式：整段文字逐字作答，不顯示外框與示範，結束後才統一產生報告
+ */
+
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = {
+  timeLimitSec: 30,
+  hintAfterMisses: false,
+  showOutline: false,
+};
+
+export const HINT_POLICIES: { value: number | false; label: string }[] = [
+  { value: false, label: "不提示" },
+  { value: 3, label: "錯 3 次後提示" },
+  { value: 1, label: "錯 1 次後提示" },
+];
+
+export const TIME_LIMITS = [0, 15, 30, 60, 120];
+
+export const examItemFromQuiz = (result: QuizResult): ExamItemResult => ({
+  char: result.char,
+  status: "completed",
+  quiz: result,
+  correctStrokes: result.strokes.length,
+  mistakes: result.totalMistakes,
+  durationMs: result.totalDurationMs,
+});
+
+/**
+ * 未寫完 (超時或略過) 的字：由書寫紀錄中 HanziWriter 的判定計算已完成的筆劃
+ */
+export const examItemFromAttempt = (
+  char: string,
+  status: Exclude<ExamItemStatus, "completed">,
+  durationMs: number,
+  attempt?: WritingAttempt
+): ExamItemResult => {
+  const strokes = attempt?.strokes ?? [];
+  return {
+    char,
+    status,
+    quiz: null,
+    correctStrokes: strokes.filter((s) => s.isCorrect === true).length,
+    mistakes: strokes.filter((s) => s.isCorrect === false).length,
+    durationMs,
+  };
+};
+
+export const getExamItemScore = (item: ExamItemResult) =>
+  item.quiz ? item.quiz.accuracy : 0;
+
+export const summarizeExam = (items: ExamItemResult[]) => {
+  const completed = items.filter((i) => i.status === "completed");
+  const completedStrokes = completed.reduce((sum, i) => sum + i.correctStrokes, 0);
+  const completedMistakes = completed.reduce((sum, i) => sum + i.mistakes, 0);
+  return {
+    total: items.length,
+    completed: completed.length,
+    timedOut: items.filter((i) => i.status === "timeout").length,
+    skipped: items.filter((i) => i.status === "skipped").length,
+    // 未完成的字以 0 分計
+    score: items.length
+      ? Math.round(
+          items.reduce((sum, i) => sum + getExamItemScore(i), 0) / items.length
+        )
+      : 0,
+    accuracy: calculateAccuracy(completedStrokes, completedMistakes), // 只計算寫完的字
+    hintsUsed: completed.reduce((sum, i) => sum + (i.quiz?.hintsUsed ?? 0), 0),
+    totalDurationMs: items.reduce((sum, i) => sum + i.durationMs, 0),
+  };
+};
@@ -0,0 +1,228 @@
+import { CompletedCharacter, LearnerProfile } from "../types";
+
+/**
+ * 練習紀錄匯出：CSV 與 xAPI (Experience API 1.0.3) 陳述，
+ * 並可直接傳送到設定的 LRS (Learning Record Store)。
+ */
+
+const XAPI_VERSION = "1.0.3";
+const PASSING_SCORE = 60;
+
+export interface LrsConfig {
+  endpoint: string; // 例如 http://localhost:8787/xapi
+  username: string;
+  password: string;
+  sentUntil: Record<string, number>; // 每位學習者已傳送到此時間點為止的紀錄
+}
+
+export const DEFAULT_LRS_CONFIG: LrsConfig = {
+  endpoint: "",
+  username: "",
+  password: "",
+  sentUntil: {},
+};
+
+export interface XapiStatement {
+  id: string;
+  actor: {
+    objectType: "Agent";
+    name: string;
+    account: { homePage: string; name: string };
+  };
+  verb: { id: string; display: Record<string, string> };
+  object: {
+    objectType: "Activity";
+    id: string;
+    definition: {
+      name: Record<string, string>;
+      type: string;
+    };
+  };
+  result: {
+    score: { scaled: number; raw: number; min: number; max: number };
+    success: boolean;
+    completion: boolean;
+    duration: string;
+    extensions: Record<string, unknown>;
+  };
+  context: {
+    language: string;
+    contextActivities?: { grouping: { id: string; objectType: "Activity" }[] };
+  };
+  timestamp: string;
+}
+
+const CSV_COLUMNS = [
+  "learner",
+  "character",
+  "script",
+  "mode",
+  "score",
+  "mistakes",
+  "missed_strokes",
+  "duration_ms",
+  "completed",
+  "success",
+  "lesson_id",
+  "timestamp",
+];
+
+const escapeCsv = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 每筆完成紀錄一列，可一次匯出多位學習者
+ */
+export const historyToCsv = (profiles: LearnerProfile[]) => {
+  const rows = profiles.flatMap((profile) =>
+    profile.history.map((entry) =>
+      [
+        profile.name,
+        entry.char,
+        entry.isSimplified ? "simplified" : "traditional",
+        entry.mode,
+        entry.score,
+        entry.mistakes,
+        entry.missedStrokes.map((n) => n + 1).join(" "),
+        entry.durationMs,
+        true,
+        entry.score >= PASSING_SCORE,
+        entry.lessonId ?? "",
+        new Date(entry.completedAt).toISOString(),
+      ]
+        .map(escapeCsv)
+        .join(",")
+    )
+  );
+  // 加上 BOM，Excel 才會以 UTF-8 開啟中文
+  return `\uFEFF${[CSV_COLUMNS.join(","), ...rows].join("\r\n")}\r\n`;
+};
+
+const createUuid = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+        const r = (Math.random() * 16) | 0;
+        return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+// ISO 8601 期間，例如 PT12.34S
+const toIsoDuration = (ms: number) => `PT${(Math.max(0, ms) / 1000).toFixed(2)}S`;
+
+const getActivityBase = () =>
+  `${typeof window !== "undefined" ? window.location.origin : "http://localhost"}/xapi`;
+
+export const entryToStatement = (
+  profile: LearnerProfile,
+  entry: CompletedCharacter,
+  activityBase: string = getActivityBase()
+): XapiStatement => {
+  const language = entry.isSimplified ? "zh-CN" : "zh-TW";
+  const script = entry.isSimplified ? "simplified" : "traditional";
+  return {
+    id: createUuid(),
+    actor: {
+      objectType: "Agent",
+      name: profile.name,
+      account: { homePage: activityBase, name: profile.id },
+    },
+    verb: {
+      id: "http://adlnet.gov/expapi/verbs/completed",
+      display: { "en-US": "completed", "zh-TW": "完成" },
+    },
+    object: {
+      objectType: "Activity",
+      id: `${activityBase}/characters/${encodeURIComponent(entry.char)}/${script}`,
+      definition: {
+        name: { [language]: entry.char },
+        type: "http://adlnet.gov/expapi/activities/interaction",
+      },
+    },
+    result: {
+      score: {
+        scaled: entry.score / 100,
+        raw: entry.score,
+        min: 0,
+        max: 100,
+      },
+      success: entry.score >= PASSING_SCORE,
+      completion: true,
+      duration: toIsoDuration(entry.durationMs),
+      extensions: {
+        [`${activityBase}/extensions/mode`]: entry.mode,
+        [`${activityBase}/extensions/mistakes`]: entry.mistakes,
+        [`${activityBase}/extensions/missed-strokes`]: entry.missedStrokes,
+      },
+    },
+    context: {
+      language,
+      ...(entry.lessonId && {
+        contextActivities: {
+          grouping: [
+            {
+              id: `${activityBase}/lessons/${encodeURIComponent(entry.lessonId)}`,
+              objectType: "Activity" as const,
+            },
+          ],
+        },
+      }),
+    },
+    timestamp: new Date(entry.completedAt).toISOString(),
+  };
+};
+
+/**
+ * 轉換為 xAPI 陳述；sentUntil 指定時只取各學習者該時間之後完成的紀錄
+ */
+export const historyToStatements = (
+  profiles: LearnerProfile[],
+  sentUntil: Record<string, number> = {}
+) =>
+  profiles.flatMap((profile) =>
+    profile.history
+      .filter((entry) => entry.completedAt > (sentUntil[profile.id] ?? 0))
+      .map((entry) => entryToStatement(profile, entry))
+  );
+
+/**
+ * 以 POST /statements 批次傳送，回傳 LRS 接受的陳述數量
+ */
+export const sendStatements = async (
+  statements: XapiStatement[],
+  config: LrsConfig
+) => {
+  if (!config.endpoint) throw new Error("請先設定 LRS 位址");
+  if (statements.length === 0) return 0;
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Experience-API-Version": XAPI_VERSION,
+  };
+  if (config.username || config.password) {
+    const credentials = new TextEncoder().encode(
+      `${config.username}:${config.password}`
+    );
+    headers.Authorization = `Basic ${btoa(String.fromCharCode(...credentials))}`;
+  }
+
+  const response = await fetch(
+    `${config.endpoint.replace(/\/+$/, "")}/statements`,
+    { method: "POST", headers, body: JSON.stringify(statements) }
+  );
+  if (!response.ok) {
+    const message = await response.text().catch(() => "");
+    throw new Error(`LRS 回應 ${response.status}${message ? `：${message}` : ""}`);
+  }
+  return statements.length;
+};
+
+export const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
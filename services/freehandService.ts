@@ -0,0 +1,207 @@
+import {
+  FreehandIssue,
+  FreehandResult,
+  FreehandStrokeGrade,
+  InkStroke,
+} from "../types";
+
+type Point = [number, number];
+
+// 以下距離皆以筆順資料的 1024 字框為單位
+const SAMPLE_POINTS = 24;
+const MATCH_LIMIT = 260; // 平均距離超過此值即不視為同一筆
+const POSITION_TOLERANCE = 110;
+const SHAPE_TOLERANCE = 0.2; // 以筆劃長度正規化後的平均偏差
+const MIN_LENGTH_RATIO = 0.6;
+const MAX_LENGTH_RATIO = 1.6;
+const EXTRA_STROKE_PENALTY = 10;
+
+const ISSUE_PENALTY: Record<FreehandIssue, number> = {
+  order: 10,
+  direction: 25,
+  proportion: 15,
+  position: 20,
+  shape: 20,
+};
+
+export const FREEHAND_ISSUE_LABELS: Record<FreehandIssue, string> = {
+  order: "筆順",
+  direction: "方向",
+  proportion: "比例",
+  position: "位置",
+  shape: "形狀",
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+const pathLength = (points: Point[]) => {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i]);
+  }
+  return length;
+};
+
+/**
+ * 沿著路徑等距取樣，讓不同點數的筆劃可以逐點比較
+ */
+const resample = (points: Point[], count = SAMPLE_POINTS): Point[] => {
+  const total = pathLength(points);
+  if (points.length < 2 || total === 0) {
+    return Array.from({ length: count }, () => points[0] ?? [0, 0]);
+  }
+
+  const step = total / (count - 1);
+  const result: Point[] = [points[0]];
+  let carried = 0;
+  for (let i = 1; i < points.length && result.length < count; i++) {
+    let [px, py] = points[i - 1];
+    const [cx, cy] = points[i];
+    let segment = distance([px, py], [cx, cy]);
+    while (carried + segment >= step && result.length < count) {
+      const ratio = (step - carried) / segment;
+      px += (cx - px) * ratio;
+      py += (cy - py) * ratio;
+      result.push([px, py]);
+      segment = distance([px, py], [cx, cy]);
+      carried = 0;
+    }
+    carried += segment;
+  }
+  while (result.length < count) {
+    result.push(points[points.length - 1]);
+  }
+  return result;
+};
+
+const centroid = (points: Point[]): Point => {
+  const sum = points.reduce<Point>((acc, p) => [acc[0] + p[0], acc[1] + p[1]], [0, 0]);
+  return [sum[0] / points.length, sum[1] / points.length];
+};
+
+const meanDistance = (a: Point[], b: Point[]) =>
+  a.reduce((sum, p, i) => sum + distance(p, b[i]), 0) / a.length;
+
+/**
+ * 移到重心並以長度縮放，只比較形狀本身
+ */
+const normalizeShape = (points: Point[]): Point[] => {
+  const [cx, cy] = centroid(points);
+  const length = pathLength(points) || 1;
+  return points.map(([x, y]) => [(x - cx) / length, (y - cy) / length]);
+};
+
+/**
+ * 依名次比較：書寫順序與參考順序不同的筆劃視為筆順錯誤
+ */
+const findOrderErrors = (matches: Map<number, number>) => {
+  const refOrder = [...matches.keys()].sort((a, b) => a - b);
+  const drawnOrder = [...matches.values()].sort((a, b) => a - b);
+  const errors = new Set<number>();
+  refOrder.forEach((strokeNum, rank) => {
+    if (matches.get(strokeNum) !== drawnOrder[rank]) errors.add(strokeNum);
+  });
+  return errors;
+};
+
+/**
+ * 將自由書寫的筆跡與參考筆劃 (medians) 比對，評估筆順、方向、比例、位置與形狀
+ */
+export const gradeFreehand = (
+  char: string,
+  ink: InkStroke[],
+  medians: number[][][],
+  startedAt: number,
+  now: number = Date.now()
+): FreehandResult => {
+  const drawn = ink.map((stroke) =>
+    resample(stroke.points.map((p): Point => [p.x, p.y]))
+  );
+  const refs = medians.map((median) => resample(median as Point[]));
+
+  // 以平均距離 (兩個方向取較小者) 由小到大貪婪配對
+  const candidates: { drawnIndex: number; strokeNum: number; cost: number }[] = [];
+  drawn.forEach((d, drawnIndex) => {
+    const reversed = [...d].reverse();
+    refs.forEach((r, strokeNum) => {
+      const cost = Math.min(meanDistance(d, r), meanDistance(reversed, r));
+      if (cost <= MATCH_LIMIT) candidates.push({ drawnIndex, strokeNum, cost });
+    });
+  });
+  candidates.sort((a, b) => a.cost - b.cost);
+
+  const matches = new Map<number, number>(); // strokeNum -> drawnIndex
+  const usedDrawn = new Set<number>();
+  for (const { drawnIndex, strokeNum } of candidates) {
+    if (matches.has(strokeNum) || usedDrawn.has(drawnIndex)) continue;
+    matches.set(strokeNum, drawnIndex);
+    usedDrawn.add(drawnIndex);
+  }
+
+  const orderErrors = findOrderErrors(matches);
+
+  const strokes: FreehandStrokeGrade[] = refs.map((ref, strokeNum) => {
+    const drawnIndex = matches.get(strokeNum);
+    if (drawnIndex === undefined) {
+      return {
+        strokeNum,
+        drawnIndex: null,
+        issues: [],
+        score: 0,
+        offset: { x: 0, y: 0 },
+        lengthRatio: 0,
+      };
+    }
+
+    const forward = drawn[drawnIndex];
+    const reversed = [...forward].reverse();
+    const isBackwards = meanDistance(reversed, ref) < meanDistance(forward, ref);
+    const oriented = isBackwards ? reversed : forward;
+
+    const [dx, dy] = centroid(oriented);
+    const [rx, ry] = centroid(ref);
+    const offset = { x: dx - rx, y: dy - ry };
+    const lengthRatio = pathLength(oriented) / Math.max(pathLength(ref), 1);
+    const shapeError = meanDistance(normalizeShape(oriented), normalizeShape(ref));
+
+    const issues: FreehandIssue[] = [];
+    if (orderErrors.has(strokeNum)) issues.push("order");
+    if (isBackwards) issues.push("direction");
+    if (lengthRatio < MIN_LENGTH_RATIO || lengthRatio > MAX_LENGTH_RATIO) {
+      issues.push("proportion");
+    }
+    if (Math.hypot(offset.x, offset.y) > POSITION_TOLERANCE) issues.push("position");
+    if (shapeError > SHAPE_TOLERANCE) issues.push("shape");
+
+    const penalty = issues.reduce((sum, issue) => sum + ISSUE_PENALTY[issue], 0);
+    return {
+      strokeNum,
+      drawnIndex,
+      issues,
+      score: Math.max(0, 100 - penalty),
+      offset,
+      lengthRatio,
+    };
+  });
+
+  const extraStrokes = drawn
+    .map((_, index) => index)
+    .filter((index) => !usedDrawn.has(index));
+
+  const average =
+    strokes.reduce((sum, s) => sum + s.score, 0) / Math.max(strokes.length, 1);
+  const score = Math.max(
+    0,
+    Math.round(average - extraStrokes.length * EXTRA_STROKE_PENALTY)
+  );
+
+  return {
+    char,
+    ink,
+    strokes,
+    extraStrokes,
+    score,
+    startedAt,
+    completedAt: now,
+  };
+};
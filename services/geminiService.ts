@@ -1,12 +1,17 @@
 
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { CharacterInfo } from "../types";
+import { CharacterInfo, InsightsProvider, SpeechPlayback, SpeechProvider, WordInfo } from "../types";
+import { createPersistentCache } from "./cacheService";
+import { validateCharacterInfo, validateWordInfo } from "./insightsValidation";
+import { isNumberedPinyin } from "./pinyinService";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 
-// 簡單的本地快取，避免重複呼叫 API 浪費額度
-const insightsCache: Record<string, CharacterInfo> = {};
-const speechCache: Record<string, string> = {};
+// 持久化快取，避免重新整理後重複呼叫 API 浪費額度
+const insightsCache = createPersistentCache<CharacterInfo>({ namespace: 'insights', version: 4, maxEntries: 2000 });
+const wordInsightsCache = createPersistentCache<WordInfo>({ namespace: 'word-insights', maxEntries: 1000 });
+const speechCache = createPersistentCache<string>({ namespace: 'gemini-speech', maxEntries: 300 });
+const readingsCache = createPersistentCache<(string | null)[]>({ namespace: 'readings', maxEntries: 200 });
 
 /**
  * 具備重試機制的 API 呼叫包裝器
@@ -23,10 +28,30 @@ async function withRetry<T>(fn: () => Promise<T>, retries = 1, delay = 1000): Pr
   }
 }
 
-export const getCharacterInsights = async (char: string, isSimplified: boolean = false): Promise<CharacterInfo | null> => {
+const characterInfoSchema = {
+  type: Type.OBJECT,
+  properties: {
+    char: { type: Type.STRING },
+    meaning: { type: Type.STRING },
+    pinyin: { type: Type.STRING },
+    zhuyin: { type: Type.STRING },
+    radical: { type: Type.STRING },
+    strokeCount: { type: Type.NUMBER },
+    examples: { 
+        type: Type.ARRAY,
+        items: { type: Type.STRING }
+    }
+  },
+  required: ["char", "meaning", "pinyin", "zhuyin"]
+};
+
+const insightsCacheKey = (char: string, isSimplified: boolean) => `${char}_${isSimplified ? 's' : 't'}`;
+
+export const getGeminiInsights = async (char: string, isSimplified: boolean = false): Promise<CharacterInfo | null> => {
   if (!process.env.API_KEY || !char) return null;
-  const cacheKey = `${char}_${isSimplified ? 's' : 't'}`;
-  if (insightsCache[cacheKey]) return insightsCache[cacheKey];
+  const cacheKey = insightsCacheKey(char, isSimplified);
+  const cached = await insightsCache.get(cacheKey);
+  if (cached) return cached;
 
   try {
     const scriptType = isSimplified ? "Simplified Chinese" : "Traditional Chinese";
@@ -34,47 +59,197 @@ export const getCharacterInsights = async (char: string, isSimplified: boolean =
       return await ai.models.generateContent({
         model: "gemini-3-flash-preview",
         contents: `Provide linguistic information for the Chinese character: "${char}". 
-        Provide Pinyin, Zhuyin (Bopomofo), Radical, Stroke Count, and Meaning in ${scriptType}.`,
+        Provide Pinyin, Zhuyin (Bopomofo), Radical, Stroke Count, and Meaning in ${scriptType}.
+        Also list 3-5 common example words in ${scriptType} that contain this character (the words only, no readings or glosses).`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: characterInfoSchema
+        }
+      });
+    });
+
+    // 模型回應不一定符合 schema，驗證並正規化後才使用
+    const result = validateCharacterInfo(JSON.parse(response.text.trim()), char);
+    if (!result) return null;
+    await insightsCache.set(cacheKey, result); // 存入快取
+    return result;
+  } catch (error) {
+    console.error("Gemini Insights Error:", error);
+    return null;
+  }
+};
+
+/**
+ * 多個字的解析合併成一次請求 (整段文字預先載入用)，回傳與 chars 對齊；
+ * 已在快取中的字不再請求，結果逐字存入與單字查詢相同的快取
+ */
+export const getGeminiBatchInsights = async (chars: string[], isSimplified: boolean = false, signal?: AbortSignal): Promise<(CharacterInfo | null)[]> => {
+  const results = await Promise.all(chars.map(char => insightsCache.get(insightsCacheKey(char, isSimplified))));
+  const missing = chars.filter((_, i) => !results[i]);
+  if (!process.env.API_KEY || missing.length === 0) return results;
+
+  try {
+    const scriptType = isSimplified ? "Simplified Chinese" : "Traditional Chinese";
+    const response = await withRetry(async () => {
+      return await ai.models.generateContent({
+        model: "gemini-3-flash-preview",
+        contents: `Provide linguistic information for each of these Chinese characters: ${missing.map(char => `"${char}"`).join(', ')}.
+        Return one object per character, in the same order.
+        For each, provide Pinyin, Zhuyin (Bopomofo), Radical, Stroke Count, and Meaning in ${scriptType}.
+        Also list 3-5 common example words in ${scriptType} that contain the character (the words only, no readings or glosses).`,
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: characterInfoSchema
+          }
+        }
+      });
+    });
+
+    const items = JSON.parse(response.text.trim());
+    if (!Array.isArray(items)) return results;
+    // 以回傳的字對應，順序錯亂或缺漏的字維持 null
+    for (const char of missing) {
+      const info = validateCharacterInfo(items.find(item => item?.char === char), char);
+      if (!info) continue;
+      results[chars.indexOf(char)] = info;
+      await insightsCache.set(insightsCacheKey(char, isSimplified), info);
+    }
+    return results;
+  } catch (error) {
+    if (!signal?.aborted) console.error("Gemini Batch Insights Error:", error);
+    return results;
+  }
+};
+
+export const getGeminiWordInsights = async (word: string, isSimplified: boolean = false): Promise<WordInfo | null> => {
+  if (!process.env.API_KEY || !word) return null;
+  const cacheKey = `${word}_${isSimplified ? 's' : 't'}`;
+  const cached = await wordInsightsCache.get(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const scriptType = isSimplified ? "Simplified Chinese" : "Traditional Chinese";
+    const response = await withRetry(async () => {
+      return await ai.models.generateContent({
+        model: "gemini-3-flash-preview",
+        contents: `Provide linguistic information for the Chinese word: "${word}".
+        Give the definition in ${scriptType}, the Pinyin as actually spoken (with tone sandhi applied, tone marks),
+        the citation Pinyin (each character's original tone), Zhuyin (Bopomofo) as spoken,
+        and 2-3 short example sentences in ${scriptType} with translations.`,
         config: {
           responseMimeType: "application/json",
           responseSchema: {
             type: Type.OBJECT,
             properties: {
-              char: { type: Type.STRING },
-              meaning: { type: Type.STRING },
+              word: { type: Type.STRING },
+              definition: { type: Type.STRING },
               pinyin: { type: Type.STRING },
+              citationPinyin: { type: Type.STRING },
               zhuyin: { type: Type.STRING },
-              radical: { type: Type.STRING },
-              strokeCount: { type: Type.NUMBER },
-              examples: { 
-                  type: Type.ARRAY,
-                  items: { type: Type.STRING }
+              examples: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    sentence: { type: Type.STRING },
+                    translation: { type: Type.STRING },
+                  },
+                  required: ["sentence"]
+                }
               }
             },
-            required: ["char", "meaning", "pinyin", "zhuyin"]
+            required: ["word", "definition", "pinyin"]
           }
         }
       });
     });
 
-    const result = JSON.parse(response.text.trim()) as CharacterInfo;
-    insightsCache[cacheKey] = result; // 存入快取
+    const result = validateWordInfo(JSON.parse(response.text.trim()), word);
+    if (!result) return null;
+    await wordInsightsCache.set(cacheKey, result); // 存入快取
     return result;
   } catch (error) {
-    console.error("Gemini Insights Error:", error);
+    console.error("Gemini Word Insights Error:", error);
+    return null;
+  }
+};
+
+export const geminiInsightsProvider: InsightsProvider = {
+  name: 'gemini',
+  isAvailable: () => !!process.env.API_KEY,
+  getInsights: getGeminiInsights,
+  getBatchInsights: getGeminiBatchInsights,
+  getWordInsights: getGeminiWordInsights,
+};
+
+/**
+ * 整段文字的逐字讀音 (依上下文判斷破音字)，一次請求取得，回傳與輸入等長的數字聲調拼音
+ */
+export const getGeminiReadings = async (chars: string[], isSimplified: boolean = false): Promise<(string | null)[] | null> => {
+  if (!process.env.API_KEY || chars.length === 0) return null;
+  const text = chars.join('');
+  const cacheKey = `${text}_${isSimplified ? 's' : 't'}`;
+  const cached = await readingsCache.get(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const response = await withRetry(async () => {
+      return await ai.models.generateContent({
+        model: "gemini-3-flash-preview",
+        contents: `For each character of the Chinese text below, in order, give its reading in this context
+        as numbered Pinyin (tone number 1-5, original tone without sandhi, e.g. "hao3"). Use an empty string for non-Chinese characters.
+        Text: "${text}"`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                char: { type: Type.STRING },
+                pinyin: { type: Type.STRING },
+              },
+              required: ["char", "pinyin"]
+            }
+          }
+        }
+      });
+    });
+
+    const items = JSON.parse(response.text.trim());
+    if (!Array.isArray(items)) return null;
+    // 逐字對齊：順序或字元對不上的位置視為沒有讀音
+    const result = chars.map((char, i) => {
+      const item = items[i];
+      return item?.char === char && typeof item.pinyin === 'string' && isNumberedPinyin(item.pinyin)
+        ? item.pinyin.trim().toLowerCase()
+        : null;
+    });
+    await readingsCache.set(cacheKey, result);
+    return result;
+  } catch (error) {
+    console.error("Gemini Readings Error:", error);
     return null;
   }
 };
 
 export const generateSpeech = async (text: string): Promise<string | null> => {
   if (!process.env.API_KEY || !text) return null;
-  if (speechCache[text]) return speechCache[text];
+  const cached = await speechCache.get(text);
+  if (cached) return cached;
   
   try {
     const response = await withRetry(async () => {
       return await ai.models.generateContent({
-        model: "gemini-2.0-flash-exp", // 更新為支援 TTS 的正確模型名稱
-        contents: [{ parts: [{ text: `請用標準國語讀出這個字：${text}` }] }],
+        model: "gemini-2.5-flash-preview-tts", // generateContent 的語音輸出需使用 TTS 專用模型
+        contents: [{
+          parts: [{
+            text: text.length === 1 ? `請用標準國語讀出這個字：${text}` : `請用標準國語自然地朗讀：${text}`,
+          }],
+        }],
         config: {
           responseModalities: [Modality.AUDIO],
           speechConfig: {
@@ -89,7 +264,7 @@ export const generateSpeech = async (text: string): Promise<string | null> => {
     if (response.candidates?.[0]?.content?.parts) {
       for (const part of response.candidates[0].content.parts) {
         if (part.inlineData?.data) {
-          speechCache[text] = part.inlineData.data; // 存入快取
+          await speechCache.set(text, part.inlineData.data); // 存入快取
           return part.inlineData.data;
         }
       }
@@ -121,7 +296,7 @@ export async function decodeAudioData(
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
   const frameCount = dataInt16.length / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
@@ -133,3 +308,78 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// Gemini TTS 輸出為 24kHz 單聲道 16-bit PCM
+const GEMINI_SAMPLE_RATE = 24000;
+
+let audioContext: AudioContext | null = null;
+let currentPlayback: SpeechPlayback | null = null;
+
+/**
+ * Gemini 語音：沒有逐字時間點，朗讀時依音訊長度平均分配每個字的時間
+ */
+export const geminiSpeechProvider: SpeechProvider = {
+  name: 'gemini',
+  label: 'Gemini',
+  capabilities: {
+    voiceSelection: false,
+    boundaries: false,
+    requiresApiKey: true,
+  },
+  isAvailable: () => !!process.env.API_KEY,
+  listVoices: () => [{ id: 'Kore', name: 'Kore', lang: 'cmn' }],
+  speak: async (text, { onBoundary }) => {
+    const base64 = await generateSpeech(text);
+    if (!base64) throw new Error('Gemini 語音產生失敗');
+
+    currentPlayback?.stop();
+    audioContext = audioContext || new AudioContext({ sampleRate: GEMINI_SAMPLE_RATE });
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    const ctx = audioContext;
+    const buffer = await decodeAudioData(decodeBase64(base64), ctx, GEMINI_SAMPLE_RATE, 1);
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+
+    const positions = text.split('').map((char, i) => (/\s/.test(char) ? -1 : i)).filter(i => i >= 0);
+    const charDuration = buffer.duration / Math.max(1, positions.length);
+    let frame = 0;
+    let lastStep = -1;
+    let resolveFinished = () => {};
+    const finished = new Promise<void>(resolve => (resolveFinished = resolve));
+    const startedAt = ctx.currentTime;
+
+    const tick = () => {
+      const step = Math.min(positions.length - 1, Math.floor((ctx.currentTime - startedAt) / charDuration));
+      if (step >= 0 && step !== lastStep) {
+        lastStep = step;
+        onBoundary?.({ start: positions[step], end: positions[step] + 1 });
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    let isStopped = false;
+    const stop = () => {
+      if (isStopped) return;
+      isStopped = true;
+      cancelAnimationFrame(frame);
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // 尚未開始或已經結束
+      }
+      if (currentPlayback === playback) currentPlayback = null;
+      resolveFinished();
+    };
+    const playback: SpeechPlayback = { stop, finished };
+    source.onended = stop;
+
+    source.start();
+    if (onBoundary && positions.length > 0) frame = requestAnimationFrame(tick);
+    currentPlayback = playback;
+    return playback;
+  },
+  stop: () => currentPlayback?.stop(),
+};
@@ -0,0 +1,63 @@
+import { GridSettings, GridStyle } from "../types";
+
+/**
+ * 練習格線定義 (座標皆為 0 - 100 的正方形)
+ */
+
+export interface GridLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  dashed?: boolean;
+}
+
+export const GRID_STYLES: { style: GridStyle; label: string }[] = [
+  { style: "tian", label: "田字格" },
+  { style: "mi", label: "米字格" },
+  { style: "jiugong", label: "九宮格" },
+  { style: "huigong", label: "回宮格" },
+  { style: "none", label: "無" },
+];
+
+export const DEFAULT_GRID_SETTINGS: GridSettings = {
+  style: "mi",
+  color: "#e11d48",
+  contrast: 0.25,
+};
+
+const CENTER_CROSS: GridLine[] = [
+  { x1: 0, y1: 50, x2: 100, y2: 50, dashed: true },
+  { x1: 50, y1: 0, x2: 50, y2: 100, dashed: true },
+];
+
+const DIAGONALS: GridLine[] = [
+  { x1: 0, y1: 0, x2: 100, y2: 100, dashed: true },
+  { x1: 100, y1: 0, x2: 0, y2: 100, dashed: true },
+];
+
+const rect = (from: number, to: number, dashed = false): GridLine[] => [
+  { x1: from, y1: from, x2: to, y2: from, dashed },
+  { x1: to, y1: from, x2: to, y2: to, dashed },
+  { x1: to, y1: to, x2: from, y2: to, dashed },
+  { x1: from, y1: to, x2: from, y2: from, dashed },
+];
+
+export const getGridLines = (style: GridStyle): GridLine[] => {
+  switch (style) {
+    case "tian":
+      return CENTER_CROSS;
+    case "mi":
+      return [...CENTER_CROSS, ...DIAGONALS];
+    case "jiugong":
+      return [100 / 3, 200 / 3].flatMap((pos) => [
+        { x1: 0, y1: pos, x2: 100, y2: pos, dashed: true },
+        { x1: pos, y1: 0, x2: pos, y2: 100, dashed: true },
+      ]);
+    case "huigong":
+      // 內框約佔 0.618 (黃金比例)
+      return [...rect(19, 81), ...CENTER_CROSS];
+    default:
+      return [];
+  }
+};
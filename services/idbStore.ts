@@ -0,0 +1,118 @@
+/**
+ * IndexedDB 共用存取層
+ *
+ * 所有需要跨重新整理保存的大型資料 (筆順資料、書寫紀錄等) 都放在同一個資料庫中，
+ * 新增 object store 時請調高 DB_VERSION 並加入 STORES。
+ */
+
+const DB_NAME = "zenscribe";
+const DB_VERSION = 3;
+
+export const STORES = {
+  strokeData: "strokeData",
+  cache: "cache",
+  attempts: "attempts",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("此瀏覽器不支援 IndexedDB"));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      Object.values(STORES).forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // 其他分頁要升級資料庫時讓出連線，下次存取再重新開啟
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // 其他分頁仍以舊版本開著資料庫時升級會被擋住；先讓呼叫端改走不使用快取的路徑
+    request.onblocked = () =>
+      reject(new Error("IndexedDB 升級被其他分頁擋住，請關閉其他分頁後重新整理"));
+  });
+
+  // 開啟失敗時允許下次重試
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(storeName: StoreName, key: string) =>
+  runRequest<T | undefined>(storeName, "readonly", (store) => store.get(key));
+
+export const idbPut = <T>(storeName: StoreName, key: string, value: T) =>
+  runRequest<IDBValidKey>(storeName, "readwrite", (store) =>
+    store.put(value, key)
+  );
+
+export const idbDelete = (storeName: StoreName, key: string) =>
+  runRequest<undefined>(storeName, "readwrite", (store) => store.delete(key));
+
+export const idbClear = (storeName: StoreName) =>
+  runRequest<undefined>(storeName, "readwrite", (store) => store.clear());
+
+/**
+ * 取得鍵值以 prefix 開頭的所有資料
+ */
+export const idbGetByPrefix = async <T>(
+  storeName: StoreName,
+  prefix: string
+): Promise<[string, T][]> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const results: [string, T][] = [];
+    const tx = db.transaction(storeName, "readonly");
+    const request = tx
+      .objectStore(storeName)
+      .openCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(results);
+        return;
+      }
+      results.push([cursor.key as string, cursor.value as T]);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGetAllKeys = (storeName: StoreName) =>
+  runRequest<IDBValidKey[]>(storeName, "readonly", (store) =>
+    store.getAllKeys()
+  );
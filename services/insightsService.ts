@@ -0,0 +1,320 @@
+import {
+  CharacterInfo,
+  InsightFlags,
+  InsightsPrefetch,
+  InsightsProvider,
+  WordInfo,
+} from "../types";
+import { geminiInsightsProvider } from "./geminiService";
+import { localDictionaryProvider } from "./localDictionaryService";
+import { loadStrokeData } from "./strokeDataService";
+import { crossCheckStrokeCount } from "./insightsValidation";
+
+/**
+ * 文字解析服務
+ *
+ * 依設定順序詢問各個解析來源，前面的來源優先，後面的來源只補足缺少的欄位；
+ * 所有欄位都齊全時就不再往下詢問 (避免不必要的 Gemini 呼叫)。
+ *
+ * 順序可由環境變數 INSIGHTS_PROVIDERS 設定，例如 `local,gemini` 或 `gemini`。
+ */
+
+const DEFAULT_ORDER = ["local", "gemini"];
+
+const COMPLETE_FIELDS: (keyof CharacterInfo)[] = [
+  "meaning",
+  "pinyin",
+  "zhuyin",
+  "radical",
+  "strokeCount",
+];
+
+// 合併時逐欄補足的欄位 (flags 另外處理)
+const CHARACTER_FIELDS: (keyof InsightFlags)[] = [
+  "char",
+  "meaning",
+  "gloss",
+  "pinyin",
+  "zhuyin",
+  "radical",
+  "strokeCount",
+  "examples",
+];
+
+const WORD_FIELDS: Exclude<keyof WordInfo, "word">[] = [
+  "definition",
+  "pinyin",
+  "citationPinyin",
+  "zhuyin",
+  "examples",
+];
+
+const providers: Record<string, InsightsProvider> = {
+  [localDictionaryProvider.name]: localDictionaryProvider,
+  [geminiInsightsProvider.name]: geminiInsightsProvider,
+};
+
+const parseOrder = (value?: string) => {
+  const names = (value || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : DEFAULT_ORDER;
+};
+
+let providerOrder = parseOrder(process.env.INSIGHTS_PROVIDERS);
+
+export const registerInsightsProvider = (provider: InsightsProvider) => {
+  providers[provider.name] = provider;
+};
+
+export const setInsightsProviderOrder = (names: string[]) => {
+  providerOrder = names.length > 0 ? names : DEFAULT_ORDER;
+};
+
+export const getInsightsProviderOrder = () => [...providerOrder];
+
+/**
+ * 是否有任何可用的解析來源
+ */
+export const hasInsightsProvider = () =>
+  providerOrder.some((name) => providers[name]?.isAvailable());
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+const isComplete = (info: CharacterInfo) =>
+  COMPLETE_FIELDS.every((field) => !isEmpty(info[field]));
+
+// 只補足 base 中缺少的欄位，校正標記跟著欄位的來源走
+const mergeInsights = (
+  base: CharacterInfo | null,
+  extra: CharacterInfo
+): CharacterInfo => {
+  if (!base) return { ...extra };
+  const merged: CharacterInfo = { ...base };
+  const flags: InsightFlags = { ...base.flags };
+  const fill = <K extends keyof InsightFlags>(key: K) => {
+    if (!isEmpty(merged[key]) || isEmpty(extra[key])) return;
+    merged[key] = extra[key];
+    const flag = extra.flags?.[key];
+    if (flag) flags[key] = flag;
+  };
+  CHARACTER_FIELDS.forEach(fill);
+  if (Object.keys(flags).length > 0) merged.flags = flags;
+  return merged;
+};
+
+// 依來源順序合併；known 中已有結果的來源 (例如批次請求取得的) 不再個別詢問
+const collectInsights = async (
+  char: string,
+  isSimplified: boolean,
+  known: Map<string, CharacterInfo | null> = new Map()
+): Promise<CharacterInfo | null> => {
+  let merged: CharacterInfo | null = null;
+  for (const name of providerOrder) {
+    const provider = providers[name];
+    if (!provider?.isAvailable()) continue;
+
+    try {
+      const result = known.has(name)
+        ? known.get(name)!
+        : await provider.getInsights(char, isSimplified);
+      if (!result) continue;
+
+      merged = mergeInsights(merged, result);
+      if (isComplete(merged)) break;
+    } catch (error) {
+      console.error(`Insights Provider Error (${name}):`, error);
+    }
+  }
+  return merged;
+};
+
+// 筆劃數以寫字板使用的筆順資料為準
+const withStrokeCheck = async (
+  char: string,
+  info: CharacterInfo | null
+): Promise<CharacterInfo | null> => {
+  if (!info) return null;
+  const strokeData = await loadStrokeData(char);
+  return strokeData
+    ? crossCheckStrokeCount(info, strokeData.strokes.length)
+    : info;
+};
+
+export const getCharacterInsights = async (
+  char: string,
+  isSimplified: boolean = false
+): Promise<CharacterInfo | null> => {
+  if (!char) return null;
+  return withStrokeCheck(char, await collectInsights(char, isSimplified));
+};
+
+// 預先載入時每次批次請求的字數，以及同時進行的批次數
+const PREFETCH_BATCH_SIZE = 20;
+const PREFETCH_CONCURRENCY = 2;
+
+const isHan = (char: string) => /\p{Script=Han}/u.test(char);
+
+/**
+ * 依序執行工作，同時最多 limit 個；取消後不再開始新的工作
+ */
+const runQueue = async (
+  tasks: (() => Promise<void>)[],
+  limit: number,
+  isCancelled: () => boolean
+) => {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length && !isCancelled()) {
+      await tasks[next++]();
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, tasks.length) }, worker)
+  );
+};
+
+/**
+ * 整段文字的解析預先載入 (依 chars 的順序排入批次，呼叫端把優先的字排在前面)
+ *
+ * 不重複的中文字分批交給支援批次的來源 (Gemini)，一批只送一次請求，
+ * 取代每次換字各自呼叫一次。
+ * 批次失敗或取消時，尚未完成的字解析為 undefined 並從 insights 移除，
+ * 呼叫端應改用 getCharacterInsights (不會一次為整批字個別請求)。
+ */
+export const prefetchInsights = (
+  chars: string[],
+  isSimplified: boolean = false,
+  onProgress?: (done: number, total: number) => void
+): InsightsPrefetch => {
+  const unique = [...new Set(chars)].filter(isHan);
+  const controller = new AbortController();
+  const isCancelled = () => controller.signal.aborted;
+
+  const settlers = new Map<
+    string,
+    (info: CharacterInfo | null | undefined) => void
+  >();
+  const insights = new Map<string, Promise<CharacterInfo | null | undefined>>();
+  unique.forEach((char) =>
+    insights.set(
+      char,
+      new Promise((resolve) => settlers.set(char, resolve))
+    )
+  );
+
+  let done = 0;
+  const settle = (char: string, info: CharacterInfo | null | undefined) => {
+    settlers.get(char)?.(info);
+    settlers.delete(char);
+    if (info === undefined) insights.delete(char);
+    if (isCancelled()) return;
+    done++;
+    onProgress?.(done, unique.length);
+  };
+
+  const run = async () => {
+    onProgress?.(0, unique.length);
+    const batchProvider = providerOrder
+      .map((name) => providers[name])
+      .find((provider) => provider?.isAvailable() && provider.getBatchInsights);
+
+    // 沒有支援批次的來源時，各字直接依來源順序查詢 (本地字典不需要網路請求)
+    if (!batchProvider) {
+      await Promise.all(
+        unique.map(async (char) =>
+          settle(
+            char,
+            await withStrokeCheck(char, await collectInsights(char, isSimplified))
+          )
+        )
+      );
+      return;
+    }
+
+    const tasks = [];
+    for (let i = 0; i < unique.length; i += PREFETCH_BATCH_SIZE) {
+      const batch = unique.slice(i, i + PREFETCH_BATCH_SIZE);
+      tasks.push(async () => {
+        let results: (CharacterInfo | null)[] = [];
+        try {
+          results = await batchProvider.getBatchInsights!(
+            batch,
+            isSimplified,
+            controller.signal
+          );
+        } catch (error) {
+          if (!isCancelled()) {
+            console.error(`Batch Insights Error (${batchProvider.name}):`, error);
+          }
+        }
+        if (isCancelled()) return;
+        await Promise.all(
+          batch.map(async (char, j) => {
+            // 批次沒有取得的字交給呼叫端在需要時單獨查詢
+            if (!results[j]) {
+              settle(char, undefined);
+              return;
+            }
+            const known = new Map([[batchProvider.name, results[j]]]);
+            const info = await collectInsights(char, isSimplified, known);
+            settle(char, await withStrokeCheck(char, info));
+          })
+        );
+      });
+    }
+    await runQueue(tasks, PREFETCH_CONCURRENCY, isCancelled);
+  };
+
+  const finished = run()
+    .catch((error) => console.error("Insights Prefetch Error:", error))
+    .finally(() => {
+      // 取消或出錯時剩下的字改由呼叫端單獨查詢
+      settlers.forEach((resolve) => resolve(undefined));
+      settlers.clear();
+    });
+
+  return {
+    insights,
+    cancel: () => controller.abort(),
+    isCancelled,
+    finished,
+  };
+};
+
+/**
+ * 詞語解析：同樣依來源順序補足欄位 (本地字典只提供讀音)
+ */
+export const getWordInsights = async (
+  word: string,
+  isSimplified: boolean = false
+): Promise<WordInfo | null> => {
+  if (!word) return null;
+
+  let merged: WordInfo | null = null;
+  for (const name of providerOrder) {
+    const provider = providers[name];
+    if (!provider?.isAvailable() || !provider.getWordInsights) continue;
+
+    try {
+      const result = await provider.getWordInsights(word, isSimplified);
+      if (!result) continue;
+
+      const target: WordInfo = merged || { word };
+      const fill = <K extends Exclude<keyof WordInfo, "word">>(key: K) => {
+        if (isEmpty(target[key])) target[key] = result[key];
+      };
+      WORD_FIELDS.forEach(fill);
+      merged = target;
+      if (!isEmpty(merged.definition) && !isEmpty(merged.examples)) break;
+    } catch (error) {
+      console.error(`Word Insights Provider Error (${name}):`, error);
+    }
+  }
+  return merged;
+};
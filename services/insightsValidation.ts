@@ -0,0 +1,161 @@
+import { CharacterInfo, InsightFlag, InsightFlags, WordInfo } from "../types";
+import {
+  isNumberedPinyin,
+  isValidZhuyin,
+  numberedToToneMarks,
+  numberedToZhuyin,
+  toneMarksToNumbered,
+} from "./pinyinService";
+
+/**
+ * CharacterInfo 驗證與正規化
+ *
+ * LLM 的回應不一定符合 schema：筆劃可能是字串、拼音可能用數字聲調、
+ * 甚至回傳的字與要求的不同。這裡負責修正可以修正的欄位，
+ * 並在 flags 中標記已校正 (corrected) 或無法信任 (untrusted) 的欄位。
+ */
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  return undefined;
+};
+
+// 有聲調符號或數字聲調；沒有時無法分辨輕聲與漏標聲調
+const hasToneInfo = (pinyin: string) =>
+  /[1-5]/.test(pinyin) || /[\u0300\u0301\u0304\u030c]/.test(pinyin.normalize("NFD"));
+
+// 比對時忽略空白與一聲符號 (ˉ)
+const compactZhuyin = (zhuyin: string) => zhuyin.replace(/[\sˉ]/g, "");
+
+const setFlag = (flags: InsightFlags, field: keyof InsightFlags, flag: InsightFlag) => {
+  // untrusted 的優先度高於 corrected
+  if (flags[field] !== "untrusted") flags[field] = flag;
+};
+
+export const validateCharacterInfo = (
+  raw: unknown,
+  requestedChar: string
+): CharacterInfo | null => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const data = raw as Record<string, unknown>;
+  const flags: InsightFlags = {};
+  const info: CharacterInfo = { char: requestedChar };
+
+  // 回傳的字與要求不同時，其餘欄位都可能描述的是另一個字
+  const returnedChar = asString(data.char);
+  const charMismatch = !!returnedChar && returnedChar !== requestedChar;
+  if (charMismatch) flags.char = "corrected";
+
+  info.meaning = asString(data.meaning);
+  info.radical = asString(data.radical);
+  if (info.radical && [...info.radical].length !== 1) {
+    flags.radical = "untrusted";
+  }
+
+  // 筆劃：接受 "8" 這類字串並轉為數字
+  if (typeof data.strokeCount === "number" && Number.isInteger(data.strokeCount)) {
+    info.strokeCount = data.strokeCount;
+  } else if (data.strokeCount !== undefined && data.strokeCount !== null) {
+    const parsed = parseInt(String(data.strokeCount), 10);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      info.strokeCount = parsed;
+      flags.strokeCount = "corrected";
+    }
+  }
+
+  // 拼音：數字聲調一律轉為聲調符號
+  const pinyin = asString(data.pinyin);
+  if (pinyin && isNumberedPinyin(pinyin)) {
+    info.pinyin = numberedToToneMarks(pinyin);
+    flags.pinyin = "corrected";
+  } else {
+    info.pinyin = pinyin;
+  }
+  const pinyinHasTone = !!pinyin && hasToneInfo(pinyin);
+  if (pinyin && !pinyinHasTone) flags.pinyin = "untrusted";
+
+  // 注音：必須是注音符號，且與拼音一致；不一致時以拼音為準重新產生
+  // (拼音沒有聲調時不以它校正注音)
+  const zhuyin = asString(data.zhuyin);
+  const expectedZhuyin = info.pinyin && pinyinHasTone
+    ? numberedToZhuyin(toneMarksToNumbered(info.pinyin))
+    : undefined;
+  const expectedIsValid = !!expectedZhuyin && isValidZhuyin(expectedZhuyin);
+  if (zhuyin && isValidZhuyin(zhuyin)) {
+    info.zhuyin = zhuyin;
+    if (expectedIsValid && compactZhuyin(zhuyin) !== compactZhuyin(expectedZhuyin!)) {
+      info.zhuyin = expectedZhuyin;
+      flags.zhuyin = "corrected";
+    }
+  } else if (expectedIsValid) {
+    info.zhuyin = expectedZhuyin;
+    flags.zhuyin = "corrected";
+  } else if (zhuyin) {
+    info.zhuyin = zhuyin;
+    flags.zhuyin = "untrusted";
+  }
+
+  if (Array.isArray(data.examples)) {
+    info.examples = data.examples
+      .map(asString)
+      .filter((example): example is string => !!example);
+  }
+
+  if (charMismatch) {
+    (["meaning", "pinyin", "zhuyin", "radical", "strokeCount", "examples"] as const)
+      .filter((field) => info[field] !== undefined)
+      .forEach((field) => setFlag(flags, field, "untrusted"));
+  }
+
+  if (Object.keys(flags).length > 0) info.flags = flags;
+  return info;
+};
+
+/**
+ * 以寫字板實際載入的筆順資料校正筆劃數
+ */
+export const crossCheckStrokeCount = (
+  info: CharacterInfo,
+  actualStrokeCount: number
+): CharacterInfo => {
+  if (info.strokeCount === actualStrokeCount) return info;
+  // 筆順資料是可信來源，因此直接標記為已校正
+  const flags: InsightFlags = { ...info.flags, strokeCount: "corrected" };
+  return { ...info, strokeCount: actualStrokeCount, flags };
+};
+
+/**
+ * WordInfo 驗證：拼音正規化為聲調符號，詞語一律使用要求的詞
+ */
+export const validateWordInfo = (
+  raw: unknown,
+  requestedWord: string
+): WordInfo | null => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const data = raw as Record<string, unknown>;
+
+  const normalizePinyin = (value: unknown) => {
+    const pinyin = asString(value);
+    return pinyin && isNumberedPinyin(pinyin) ? numberedToToneMarks(pinyin) : pinyin;
+  };
+  const zhuyin = asString(data.zhuyin);
+
+  return {
+    word: requestedWord,
+    definition: asString(data.definition),
+    pinyin: normalizePinyin(data.pinyin),
+    citationPinyin: normalizePinyin(data.citationPinyin),
+    zhuyin: zhuyin && isValidZhuyin(zhuyin) ? zhuyin : undefined,
+    examples: Array.isArray(data.examples)
+      ? data.examples
+          .map((example) => {
+            if (!example || typeof example !== "object") return null;
+            const { sentence, translation } = example as Record<string, unknown>;
+            const text = asString(sentence);
+            return text ? { sentence: text, translation: asString(translation) } : null;
+          })
+          .filter((example): example is NonNullable<typeof example> => !!example)
+      : undefined,
+  };
+};
@@ -0,0 +1,226 @@
+import { Lesson } from "../types";
+import { BUILTIN_LESSONS } from "./builtinLessons";
+
+/**
+ * 課程庫服務
+ *
+ * 內建課程與使用者匯入的課程合併顯示；使用者課程存於 localStorage。
+ * 匯入支援 CSV、JSON 與純文字三種格式。
+ */
+
+const STORAGE_KEY = "zenscribe.lessons.v1";
+const DEFAULT_GROUP = "我的課程";
+
+export const createLessonId = () =>
+  `lesson-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// 只接受字串與數字，其他型別視為空白
+const asText = (value: unknown) =>
+  typeof value === "string" || typeof value === "number" ? String(value) : "";
+
+// 已儲存的課程：缺少 id 或內容的項目視為損毀並略過
+const parseStoredLesson = (value: unknown): Lesson | null => {
+  if (!isRecord(value)) return null;
+  const id = asText(value.id);
+  const text = asText(value.text);
+  if (!id || !text) return null;
+  return {
+    id,
+    title: asText(value.title) || text.slice(0, 8),
+    group: asText(value.group) || DEFAULT_GROUP,
+    text,
+  };
+};
+
+export const loadUserLessons = (): Lesson[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(data)) return [];
+    return data
+      .map(parseStoredLesson)
+      .filter((lesson): lesson is Lesson => lesson !== null);
+  } catch (error) {
+    console.error("Lesson Load Error:", error);
+    return [];
+  }
+};
+
+export const saveUserLessons = (lessons: Lesson[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lessons));
+  } catch (error) {
+    console.error("Lesson Save Error:", error);
+  }
+};
+
+export const getAllLessons = (userLessons: Lesson[]) => [
+  ...BUILTIN_LESSONS,
+  ...userLessons,
+];
+
+/**
+ * 依群組分類，保留第一次出現的順序
+ */
+export const groupLessons = (lessons: Lesson[]): [string, Lesson[]][] => {
+  const groups = new Map<string, Lesson[]>();
+  lessons.forEach((lesson) => {
+    const list = groups.get(lesson.group) ?? [];
+    list.push(lesson);
+    groups.set(lesson.group, list);
+  });
+  return [...groups.entries()];
+};
+
+// 逗號、頓號、分號、換行都視為詞語分隔
+const normalizeLessonText = (text: string) =>
+  text
+    .split(/[\s,，、;；|]+/)
+    .filter(Boolean)
+    .join(" ");
+
+const createLesson = (title: string, group: string, text: string): Lesson | null => {
+  const normalized = normalizeLessonText(text);
+  if (!normalized) return null;
+  return {
+    id: createLessonId(),
+    title: title.trim() || normalized.slice(0, 8),
+    group: group.trim() || DEFAULT_GROUP,
+    text: normalized,
+  };
+};
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+};
+
+/**
+ * CSV：欄位為 group,title,text (或 title,text)，第一列可為標題列；
+ * 相同 group + title 的多列會合併成同一課 (方便一列一個詞)
+ */
+export const parseLessonCsv = (text: string, defaultGroup = DEFAULT_GROUP) => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = header.includes("text") || header.includes("title");
+  const index = (name: string, fallback: number) =>
+    hasHeader ? header.indexOf(name) : fallback;
+  const columns = rows[0]?.length ?? 0;
+  const groupIndex = index("group", columns >= 3 ? 0 : -1);
+  const titleIndex = index("title", columns >= 3 ? 1 : 0);
+  const textIndex = index("text", columns >= 3 ? 2 : 1);
+  if (textIndex < 0) throw new Error("CSV 缺少 text 欄位");
+
+  const merged = new Map<string, { group: string; title: string; words: string[] }>();
+  rows.slice(hasHeader ? 1 : 0).forEach((row) => {
+    const group = (groupIndex >= 0 && row[groupIndex]) || defaultGroup;
+    const title = (titleIndex >= 0 && row[titleIndex]) || "";
+    const key = `${group}\u0000${title}`;
+    const entry = merged.get(key) ?? { group, title, words: [] };
+    entry.words.push(row[textIndex] ?? "");
+    merged.set(key, entry);
+  });
+  return [...merged.values()]
+    .map(({ group, title, words }) => createLesson(title, group, words.join(" ")))
+    .filter((lesson): lesson is Lesson => lesson !== null);
+};
+
+/**
+ * JSON：課程陣列或 { lessons: [...] }，每課含 title/name、group、text 或 words 陣列
+ */
+export const parseLessonJson = (text: string, defaultGroup = DEFAULT_GROUP) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("檔案不是有效的 JSON");
+  }
+  const items = Array.isArray(data)
+    ? data
+    : isRecord(data)
+    ? data.lessons
+    : undefined;
+  if (!Array.isArray(items)) throw new Error("JSON 中找不到課程陣列");
+  return items
+    .filter(isRecord)
+    .map((item) =>
+      createLesson(
+        asText(item.title ?? item.name),
+        asText(item.group ?? item.level) || defaultGroup,
+        Array.isArray(item.words) ? item.words.map(asText).join(" ") : asText(item.text)
+      )
+    )
+    .filter((lesson): lesson is Lesson => lesson !== null);
+};
+
+/**
+ * 純文字：「# 群組」開始新的群組，其餘每一行為一課，可寫成「標題：內容」
+ */
+export const parseLessonText = (text: string, defaultGroup = DEFAULT_GROUP) => {
+  let group = defaultGroup;
+  const lessons: Lesson[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    if (trimmed.startsWith("#")) {
+      group = trimmed.replace(/^#+/, "").trim() || defaultGroup;
+      return;
+    }
+    const match = trimmed.match(/^([^:：]+)[:：](.+)$/);
+    const lesson = match
+      ? createLesson(match[1], group, match[2])
+      : createLesson(`第 ${lessons.length + 1} 課`, group, trimmed);
+    if (lesson) lessons.push(lesson);
+  });
+  return lessons;
+};
+
+/**
+ * 依副檔名選擇解析方式，解析不到任何課程時丟出錯誤
+ */
+export const parseLessonFile = (filename: string, text: string) => {
+  const defaultGroup = filename.replace(/\.[^.]+$/, "") || DEFAULT_GROUP;
+  const extension = filename.split(".").pop()?.toLowerCase();
+  const lessons =
+    extension === "json"
+      ? parseLessonJson(text, defaultGroup)
+      : extension === "csv"
+      ? parseLessonCsv(text, defaultGroup)
+      : parseLessonText(text, defaultGroup);
+  if (lessons.length === 0) throw new Error("檔案中沒有可用的課程");
+  return lessons;
+};
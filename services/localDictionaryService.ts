@@ -0,0 +1,112 @@
+import { CharacterInfo, InsightsProvider, WordInfo } from "../types";
+import {
+  applyToneSandhi,
+  numberedToToneMarks,
+  numberedToZhuyin,
+} from "./pinyinService";
+
+/**
+ * 本地字典 (離線) 解析來源
+ *
+ * 讀取 `npm run build:dictionary` 產生的 public/dictionary/chars.json
+ * (CC-CEDICT + hanzi-writer-data，選用 Unihan)，提供拼音、注音、部首與筆劃。
+ * CC-CEDICT 的英文釋義放在 gloss，不佔用 meaning，讓其他來源補上中文解釋。
+ */
+
+const DICTIONARY_URL = "/dictionary/chars.json";
+
+interface DictionaryEntry {
+  p: string[]; // 數字聲調拼音，主要讀音在前
+  m?: string; // 英文釋義
+  r?: string; // 部首
+  s?: number; // 筆劃數
+}
+
+let dictionaryPromise: Promise<Record<string, DictionaryEntry> | null> | null =
+  null;
+// 字典檔不存在或載入失敗時為 true，此來源視為無法使用
+let isMissing = false;
+
+const loadDictionary = () => {
+  if (!dictionaryPromise) {
+    dictionaryPromise = fetch(DICTIONARY_URL)
+      .then((response) => (response.ok ? response.json() : null))
+      .catch((error) => {
+        console.warn("Local Dictionary Error:", error);
+        return null;
+      })
+      .then((dictionary) => {
+        isMissing = !dictionary;
+        return dictionary;
+      });
+  }
+  return dictionaryPromise;
+};
+
+// 預先載入，讓 isAvailable 能盡早反映字典是否存在
+if (typeof window !== "undefined") loadDictionary();
+
+export const lookupLocalDictionary = async (
+  char: string
+): Promise<CharacterInfo | null> => {
+  const dictionary = await loadDictionary();
+  const entry = dictionary?.[char];
+  if (!entry) return null;
+
+  const reading = entry.p[0];
+  return {
+    char,
+    gloss: entry.m,
+    pinyin: reading ? numberedToToneMarks(reading) : undefined,
+    zhuyin: reading ? numberedToZhuyin(reading) : undefined,
+    radical: entry.r,
+    strokeCount: entry.s,
+  };
+};
+
+/**
+ * 一次查詢整段文字每個字的主要讀音 (數字聲調拼音)，查不到或沒有字典時為 null；
+ * isPolyphone 表示字典中有多個讀音 (破音字)，主要讀音不一定符合上下文
+ */
+export const lookupLocalReadings = async (
+  chars: string[]
+): Promise<{ reading: string | null; isPolyphone: boolean }[]> => {
+  const dictionary = await loadDictionary();
+  return chars.map((char) => {
+    const readings = new Set(
+      (dictionary?.[char]?.p ?? []).map((p) => p.toLowerCase())
+    );
+    return {
+      reading: dictionary?.[char]?.p[0] ?? null,
+      isPolyphone: readings.size > 1,
+    };
+  });
+};
+
+/**
+ * 以逐字讀音組成詞語讀音並套用變調 (沒有詞義)
+ */
+export const lookupLocalWord = async (word: string): Promise<WordInfo | null> => {
+  const dictionary = await loadDictionary();
+  if (!dictionary) return null;
+
+  const chars = word.split("");
+  const readings = chars.map((char) => dictionary[char]?.p[0]);
+  if (readings.some((reading) => !reading)) return null;
+
+  const citation = readings as string[];
+  const spoken = applyToneSandhi(chars, citation);
+  return {
+    word,
+    pinyin: numberedToToneMarks(spoken.join(" ")),
+    citationPinyin: numberedToToneMarks(citation.join(" ")),
+    zhuyin: numberedToZhuyin(spoken.join(" ")),
+  };
+};
+
+export const localDictionaryProvider: InsightsProvider = {
+  name: "local",
+  isAvailable: () => !isMissing,
+  getInsights: (char) => lookupLocalDictionary(char),
+  getWordInsights: (word) => lookupLocalWord(word),
+};
@@ -0,0 +1,268 @@
+/**
+ * 拼音工具
+ *
+ * 字典資料 (CC-CEDICT) 使用數字聲調拼音 (例如 `yong3`、`lu:4`)，
+ * 這裡負責轉換為聲調符號拼音 (`yǒng`) 與注音符號 (`ㄩㄥˇ`)。
+ */
+
+const TONE_MARKS: Record<string, string[]> = {
+  a: ["ā", "á", "ǎ", "à"],
+  e: ["ē", "é", "ě", "è"],
+  i: ["ī", "í", "ǐ", "ì"],
+  o: ["ō", "ó", "ǒ", "ò"],
+  u: ["ū", "ú", "ǔ", "ù"],
+  ü: ["ǖ", "ǘ", "ǚ", "ǜ"],
+};
+
+const ZHUYIN_INITIALS: [string, string][] = [
+  ["zh", "ㄓ"],
+  ["ch", "ㄔ"],
+  ["sh", "ㄕ"],
+  ["b", "ㄅ"],
+  ["p", "ㄆ"],
+  ["m", "ㄇ"],
+  ["f", "ㄈ"],
+  ["d", "ㄉ"],
+  ["t", "ㄊ"],
+  ["n", "ㄋ"],
+  ["l", "ㄌ"],
+  ["g", "ㄍ"],
+  ["k", "ㄎ"],
+  ["h", "ㄏ"],
+  ["j", "ㄐ"],
+  ["q", "ㄑ"],
+  ["x", "ㄒ"],
+  ["r", "ㄖ"],
+  ["z", "ㄗ"],
+  ["c", "ㄘ"],
+  ["s", "ㄙ"],
+];
+
+const ZHUYIN_FINALS: Record<string, string> = {
+  a: "ㄚ",
+  o: "ㄛ",
+  e: "ㄜ",
+  ê: "ㄝ",
+  ai: "ㄞ",
+  ei: "ㄟ",
+  ao: "ㄠ",
+  ou: "ㄡ",
+  an: "ㄢ",
+  en: "ㄣ",
+  ang: "ㄤ",
+  eng: "ㄥ",
+  ong: "ㄨㄥ",
+  er: "ㄦ",
+  i: "ㄧ",
+  ia: "ㄧㄚ",
+  io: "ㄧㄛ",
+  ie: "ㄧㄝ",
+  iai: "ㄧㄞ",
+  iao: "ㄧㄠ",
+  iou: "ㄧㄡ",
+  ian: "ㄧㄢ",
+  in: "ㄧㄣ",
+  iang: "ㄧㄤ",
+  ing: "ㄧㄥ",
+  iong: "ㄩㄥ",
+  u: "ㄨ",
+  ua: "ㄨㄚ",
+  uo: "ㄨㄛ",
+  uai: "ㄨㄞ",
+  uei: "ㄨㄟ",
+  uan: "ㄨㄢ",
+  uen: "ㄨㄣ",
+  uang: "ㄨㄤ",
+  ueng: "ㄨㄥ",
+  ü: "ㄩ",
+  üe: "ㄩㄝ",
+  üan: "ㄩㄢ",
+  ün: "ㄩㄣ",
+};
+
+const ZHUYIN_TONES = ["", "ˊ", "ˇ", "ˋ"];
+
+// y / w 開頭的零聲母拼寫還原為韻母
+const ZERO_INITIAL_FINALS: Record<string, string> = {
+  yi: "i",
+  ya: "ia",
+  yo: "io",
+  ye: "ie",
+  yai: "iai",
+  yao: "iao",
+  you: "iou",
+  yan: "ian",
+  yin: "in",
+  yang: "iang",
+  ying: "ing",
+  yong: "iong",
+  yu: "ü",
+  yue: "üe",
+  yuan: "üan",
+  yun: "ün",
+  wu: "u",
+  wa: "ua",
+  wo: "uo",
+  wai: "uai",
+  wei: "uei",
+  wan: "uan",
+  wen: "uen",
+  wang: "uang",
+  weng: "ueng",
+};
+
+interface ParsedSyllable {
+  letters: string; // 不含聲調，ü 已正規化
+  tone: number; // 1 - 5，5 為輕聲
+}
+
+const parseNumberedSyllable = (syllable: string): ParsedSyllable | null => {
+  const match = syllable
+    .trim()
+    .toLowerCase()
+    .match(/^([a-zü:v]+)([1-5])?$/);
+  if (!match) return null;
+  const letters = match[1].replace(/u:|v/g, "ü");
+  return { letters, tone: match[2] ? parseInt(match[2], 10) : 5 };
+};
+
+/**
+ * 數字聲調拼音轉聲調符號：`yong3` → `yǒng`，`lu:4` → `lǜ`
+ */
+export const numberedToToneMarks = (pinyin: string): string =>
+  pinyin
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((syllable) => {
+      const parsed = parseNumberedSyllable(syllable);
+      if (!parsed) return syllable;
+      const { letters, tone } = parsed;
+      if (tone === 5) return letters;
+
+      // 標調規則：a、e 優先；ou 標在 o；其餘標在最後一個母音
+      let index = letters.search(/[ae]/);
+      if (index === -1) index = letters.indexOf("ou");
+      if (index === -1) {
+        const vowels = [...letters.matchAll(/[iouü]/g)];
+        index = vowels.length > 0 ? vowels[vowels.length - 1].index! : -1;
+      }
+      if (index === -1) return letters;
+
+      const vowel = letters[index];
+      return (
+        letters.slice(0, index) +
+        TONE_MARKS[vowel][tone - 1] +
+        letters.slice(index + 1)
+      );
+    })
+    .join(" ");
+
+const syllableToZhuyin = (syllable: string): string => {
+  const parsed = parseNumberedSyllable(syllable);
+  if (!parsed) return syllable;
+  const { letters, tone } = parsed;
+
+  let initial = "";
+  let final = letters;
+
+  if (letters === "r") {
+    final = "er"; // 兒化音
+  } else if (ZERO_INITIAL_FINALS[letters]) {
+    final = ZERO_INITIAL_FINALS[letters];
+  } else {
+    const found = ZHUYIN_INITIALS.find(([latin]) => letters.startsWith(latin));
+    if (found) {
+      initial = found[1];
+      final = letters.slice(found[0].length);
+      if (/^[jqx]/.test(letters)) final = final.replace(/^u/, "ü");
+      final = final.replace(/^iu$/, "iou").replace(/^ui$/, "uei").replace(/^un$/, "uen");
+    }
+  }
+
+  // 舌尖元音 (zhi, chi, shi, ri, zi, ci, si) 不寫韻母
+  const zhuyinFinal =
+    final === "i" && /^[ㄓㄔㄕㄖㄗㄘㄙ]$/.test(initial)
+      ? ""
+      : ZHUYIN_FINALS[final] ?? "";
+  if (!initial && !zhuyinFinal) return syllable;
+
+  const body = initial + zhuyinFinal;
+  return tone === 5 ? `˙${body}` : body + ZHUYIN_TONES[tone - 1];
+};
+
+/**
+ * 數字聲調拼音轉注音：`yong3` → `ㄩㄥˇ`
+ */
+export const numberedToZhuyin = (pinyin: string): string =>
+  pinyin.split(/\s+/).filter(Boolean).map(syllableToZhuyin).join(" ");
+
+const MARKED_VOWELS: Record<string, [string, number]> = Object.fromEntries(
+  Object.entries(TONE_MARKS).flatMap(([vowel, marks]) =>
+    marks.map((mark, i) => [mark, [vowel, i + 1] as [string, number]])
+  )
+);
+
+/**
+ * 聲調符號拼音轉數字聲調：`yǒng` → `yong3`，`lǜ` → `lu:4`
+ */
+export const toneMarksToNumbered = (pinyin: string): string =>
+  pinyin
+    .normalize("NFC")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((syllable) => {
+      let tone = 5;
+      const letters = [...syllable.toLowerCase()]
+        .map((letter) => {
+          const marked = MARKED_VOWELS[letter];
+          if (!marked) return letter;
+          tone = marked[1];
+          return marked[0];
+        })
+        .join("")
+        .replace(/ü/g, "u:");
+      return `${letters}${tone}`;
+    })
+    .join(" ");
+
+/**
+ * 是否為數字聲調拼音 (例如 `yong3`、`he2 ping2`)
+ */
+export const isNumberedPinyin = (pinyin: string) =>
+  /^([a-zü:v]+[1-5]\s*)+$/i.test(pinyin.trim());
+
+/**
+ * 是否為有效的注音 (注音符號、聲調與輕聲點)
+ */
+export const isValidZhuyin = (zhuyin: string) =>
+  /^[ㄅ-ㄯㆠ-ㆿˉˊˇˋ˙\s]+$/.test(zhuyin.trim());
+
+const syllableTone = (syllable: string) =>
+  parseNumberedSyllable(syllable)?.tone ?? 5;
+
+const withTone = (syllable: string, tone: number) =>
+  syllable.replace(/[1-5]?$/, String(tone));
+
+/**
+ * 套用普通話變調規則，輸入與輸出皆為數字聲調拼音 (每字一個音節)
+ * - 三聲 + 三聲 → 二聲 + 三聲
+ * - 「不」在四聲前讀二聲
+ * - 「一」在四聲前讀二聲，在一、二、三聲前讀四聲 (詞尾不變)
+ */
+export const applyToneSandhi = (chars: string[], syllables: string[]) => {
+  const tones = syllables.map(syllableTone);
+  return syllables.map((syllable, i) => {
+    const next = tones[i + 1];
+    if (next === undefined) return syllable;
+
+    if (chars[i] === "不" && tones[i] === 4 && next === 4) {
+      return withTone(syllable, 2);
+    }
+    if (chars[i] === "一" && tones[i] === 1) {
+      if (next === 4) return withTone(syllable, 2);
+      if (next >= 1 && next <= 3) return withTone(syllable, 4);
+    }
+    if (tones[i] === 3 && next === 3) return withTone(syllable, 2);
+    return syllable;
+  });
+};
@@ -0,0 +1,175 @@
+import { PitchPoint } from "../types";
+
+/**
+ * 音高分析：由錄音計算基頻曲線並判斷聲調
+ *
+ * 先降取樣到 16kHz，再以 YIN 演算法逐格估計基頻；
+ * 聲調只看曲線形狀 (相對於本人音域的升降)，不需要知道說話者的絕對音高。
+ */
+
+const TARGET_RATE = 16000;
+const FRAME_SIZE = 512; // 32ms
+const HOP_SIZE = 160; // 10ms
+const MIN_HZ = 70;
+const MAX_HZ = 450;
+const YIN_THRESHOLD = 0.15;
+const SILENCE_RMS = 0.01;
+const MIN_VOICED_POINTS = 6;
+
+// 各聲調的五度標記 (趙元任調值)，依時間平均分布
+export const TONE_CONTOURS: Record<number, number[]> = {
+  1: [5, 5],
+  2: [3, 5],
+  3: [2, 1, 4],
+  4: [5, 1],
+  5: [3, 3],
+};
+
+export const TONE_NAMES: Record<number, string> = {
+  1: "一聲",
+  2: "二聲",
+  3: "三聲",
+  4: "四聲",
+  5: "輕聲",
+};
+
+const downsample = (samples: Float32Array, sampleRate: number) => {
+  const factor = Math.max(1, Math.round(sampleRate / TARGET_RATE));
+  if (factor === 1) return { samples, sampleRate };
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    output[i] = sum / factor;
+  }
+  return { samples: output, sampleRate: sampleRate / factor };
+};
+
+/**
+ * 單一音框的基頻 (Hz)，無聲或無法判斷時回傳 null
+ */
+export const detectPitch = (
+  frame: Float32Array,
+  sampleRate: number
+): number | null => {
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  if (Math.sqrt(energy / frame.length) < SILENCE_RMS) return null;
+
+  const minLag = Math.floor(sampleRate / MAX_HZ);
+  const maxLag = Math.min(Math.floor(sampleRate / MIN_HZ), frame.length - 1);
+  const size = frame.length - maxLag;
+  if (size <= 0) return null;
+
+  // 差分函數與累積平均正規化
+  const diff = new Float32Array(maxLag + 1);
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = 0; i < size; i++) {
+      const delta = frame[i] - frame[i + lag];
+      sum += delta * delta;
+    }
+    diff[lag] = sum;
+  }
+  let running = 0;
+  const normalized = new Float32Array(maxLag + 1);
+  normalized[0] = 1;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    running += diff[lag];
+    normalized[lag] = running > 0 ? (diff[lag] * lag) / running : 1;
+  }
+
+  let lag = minLag;
+  while (lag <= maxLag && normalized[lag] >= YIN_THRESHOLD) lag++;
+  if (lag > maxLag) return null;
+  while (lag + 1 <= maxLag && normalized[lag + 1] < normalized[lag]) lag++;
+
+  // 拋物線內插取得更精確的週期
+  const prev = normalized[lag - 1];
+  const next = lag + 1 <= maxLag ? normalized[lag + 1] : normalized[lag];
+  const denominator = prev + next - 2 * normalized[lag];
+  const offset = denominator !== 0 ? (prev - next) / (2 * denominator) : 0;
+  return sampleRate / (lag + offset);
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * 整段錄音的音高曲線，只保留最長的一段連續有聲區間 (即該音節)
+ */
+export const extractPitchContour = (
+  input: Float32Array,
+  inputRate: number
+): PitchPoint[] => {
+  const { samples, sampleRate } = downsample(input, inputRate);
+  const hop = Math.round((HOP_SIZE * sampleRate) / TARGET_RATE);
+  const frameSize = Math.round((FRAME_SIZE * sampleRate) / TARGET_RATE);
+
+  const raw: (number | null)[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hop) {
+    raw.push(detectPitch(samples.subarray(start, start + frameSize), sampleRate));
+  }
+
+  // 最長連續有聲區間 (容許 2 格的短暫中斷)
+  let best: [number, number] = [0, 0];
+  let runStart = -1;
+  let gap = 0;
+  raw.forEach((hz, i) => {
+    if (hz !== null) {
+      if (runStart === -1) runStart = i;
+      gap = 0;
+      if (i + 1 - runStart > best[1] - best[0]) best = [runStart, i + 1];
+    } else if (runStart !== -1 && ++gap > 2) {
+      runStart = -1;
+      gap = 0;
+    }
+  });
+
+  const voiced = raw
+    .slice(best[0], best[1])
+    .map((hz, i) => ({ t: ((best[0] + i) * hop) / sampleRate, hz }))
+    .filter((p): p is { t: number; hz: number } => p.hz !== null);
+  if (voiced.length < MIN_VOICED_POINTS) return [];
+
+  // 去除倍頻 / 半頻誤判：與中位數相差超過 7 個半音的點捨棄
+  const center = median(voiced.map((p) => p.hz));
+  const points = voiced
+    .map((p) => ({ ...p, semitone: 12 * Math.log2(p.hz / center) }))
+    .filter((p) => Math.abs(p.semitone) <= 7);
+
+  // 三點中位數平滑
+  return points.map((p, i) => ({
+    ...p,
+    semitone: median(
+      points.slice(Math.max(0, i - 1), i + 2).map((q) => q.semitone)
+    ),
+  }));
+};
+
+const average = (values: number[]) =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * 依曲線形狀判斷聲調 (1 - 4)，點數不足時回傳 null
+ */
+export const classifyTone = (contour: PitchPoint[]): number | null => {
+  if (contour.length < MIN_VOICED_POINTS) return null;
+  const values = contour.map((p) => p.semitone);
+  const edge = Math.max(1, Math.round(values.length * 0.2));
+  const start = average(values.slice(0, edge));
+  const end = average(values.slice(-edge));
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const minPosition = values.indexOf(min) / (values.length - 1);
+
+  if (max - min < 2) return 1;
+  const isDipping =
+    minPosition > 0.2 && minPosition < 0.85 && start - min > 1.5 && end - min > 1.5;
+  if (isDipping) return 3;
+  if (end - start >= 2) return 2;
+  if (start - end >= 2) return 4;
+  return 1;
+};
@@ -0,0 +1,23 @@
+/**
+ * 使用者偏好設定 (localStorage)
+ */
+
+const PREFIX = "zenscribe.pref.";
+
+export const loadPreference = <T extends object>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw ? { ...fallback, ...JSON.parse(raw) } : fallback;
+  } catch (error) {
+    console.error("Preference Load Error:", error);
+    return fallback;
+  }
+};
+
+export const savePreference = <T>(key: string, value: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error("Preference Save Error:", error);
+  }
+};
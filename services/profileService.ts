@@ -0,0 +1,240 @@
+import {
+  CompletedCharacter,
+  GridSettings,
+  LearnerProfile,
+  ProfilePreferences,
+  RubyMode,
+  SpeechProviderId,
+} from "../types";
+import { DEFAULT_GRID_SETTINGS, GRID_STYLES } from "./gridService";
+import { loadPreference } from "./preferencesService";
+
+/**
+ * 學習者設定檔服務
+ *
+ * 多位學習者可共用同一台裝置，每人各有偏好設定、練習位置與完成紀錄，
+ * 全部存於 localStorage。第一次載入時會把舊版的格線與練習文字設定轉入預設學習者。
+ */
+
+const STORAGE_KEY = "zenscribe.profiles.v1";
+const MAX_HISTORY = 2000;
+
+const DEFAULT_PROFILE_ID = "default"; // 與 srsService 的預設鍵值對應
+export const DEFAULT_TEXT = "永和九年";
+
+export const DEFAULT_PREFERENCES: ProfilePreferences = {
+  isSimplified: false,
+  voiceName: null,
+  speechProvider: "web",
+  speed: 1,
+  grid: DEFAULT_GRID_SETTINGS,
+  isDemoCompact: false,
+  practiceMode: "quiz",
+  isDictation: false,
+  rubyMode: "none",
+  highlightRadical: true,
+  highlightComponents: false,
+};
+
+export interface ProfileStore {
+  activeId: string;
+  profiles: LearnerProfile[];
+}
+
+export const createProfile = (
+  name: string,
+  id: string = `profile-${Date.now().toString(36)}`
+): LearnerProfile => ({
+  id,
+  name,
+  createdAt: Date.now(),
+  preferences: DEFAULT_PREFERENCES,
+  position: { text: DEFAULT_TEXT, index: 0, lessonId: null },
+  history: [],
+});
+
+const createDefaultStore = (): ProfileStore => {
+  const profile = createProfile("學習者", DEFAULT_PROFILE_ID);
+  profile.preferences = {
+    ...profile.preferences,
+    grid: loadPreference("grid", DEFAULT_GRID_SETTINGS),
+  };
+  profile.position = {
+    ...profile.position,
+    text: loadPreference("practice", { text: DEFAULT_TEXT }).text,
+  };
+  return { activeId: profile.id, profiles: [profile] };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// 舊版只有「雲端 / 本地」開關 (useCloudVoice)
+const migrateSpeechProvider = (
+  preferences: Record<string, unknown>
+): Partial<ProfilePreferences> =>
+  typeof preferences.speechProvider === "string" ||
+  typeof preferences.useCloudVoice !== "boolean"
+    ? {}
+    : { speechProvider: preferences.useCloudVoice ? "cloud" : "web" };
+
+const isBoolean = (value: unknown): value is boolean => typeof value === "boolean";
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const oneOf =
+  <T extends string>(values: readonly T[]) =>
+  (value: unknown): value is T =>
+    values.some((item) => item === value);
+
+const migrateGrid = (value: unknown): GridSettings => {
+  const grid = isRecord(value) ? value : {};
+  return {
+    style: oneOf(GRID_STYLES.map((item) => item.style))(grid.style)
+      ? grid.style
+      : DEFAULT_GRID_SETTINGS.style,
+    color: isString(grid.color) ? grid.color : DEFAULT_GRID_SETTINGS.color,
+    contrast: isNumber(grid.contrast) ? grid.contrast : DEFAULT_GRID_SETTINGS.contrast,
+  };
+};
+
+// 型別不符的偏好改用預設值
+const migratePreferences = (value: unknown): ProfilePreferences => {
+  const stored = isRecord(value) ? value : {};
+  const pick = <K extends keyof ProfilePreferences>(
+    key: K,
+    isValid: (item: unknown) => item is ProfilePreferences[K]
+  ): ProfilePreferences[K] => {
+    const item = stored[key];
+    return isValid(item) ? item : DEFAULT_PREFERENCES[key];
+  };
+  return {
+    isSimplified: pick("isSimplified", isBoolean),
+    voiceName: pick("voiceName", isString),
+    speechProvider:
+      migrateSpeechProvider(stored).speechProvider ??
+      pick("speechProvider", oneOf<SpeechProviderId>(["web", "cloud", "gemini"])),
+    speed: pick("speed", isNumber),
+    grid: migrateGrid(stored.grid),
+    isDemoCompact: pick("isDemoCompact", isBoolean),
+    practiceMode: pick("practiceMode", oneOf(["quiz", "freehand"] as const)),
+    isDictation: pick("isDictation", isBoolean),
+    rubyMode: pick("rubyMode", oneOf<RubyMode>(["none", "pinyin", "zhuyin"])),
+    highlightRadical: pick("highlightRadical", isBoolean),
+    highlightComponents: pick("highlightComponents", isBoolean),
+  };
+};
+
+const isHistoryMode = oneOf<CompletedCharacter["mode"]>([
+  "quiz",
+  "freehand",
+  "dictation",
+  "exam",
+]);
+
+// 早期的完成紀錄沒有錯誤、耗時與課程欄位；缺少字、模式、分數或時間的紀錄視為損毀
+const migrateHistoryEntry = (value: unknown): CompletedCharacter | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.char !== "string" ||
+    !isHistoryMode(value.mode) ||
+    !isNumber(value.score) ||
+    !isNumber(value.completedAt)
+  ) {
+    return null;
+  }
+  return {
+    char: value.char,
+    isSimplified: value.isSimplified === true,
+    mode: value.mode,
+    score: value.score,
+    mistakes: isNumber(value.mistakes) ? value.mistakes : 0,
+    missedStrokes: Array.isArray(value.missedStrokes)
+      ? value.missedStrokes.filter(isNumber)
+      : [],
+    durationMs: isNumber(value.durationMs) ? value.durationMs : 0,
+    lessonId: typeof value.lessonId === "string" ? value.lessonId : null,
+    completedAt: value.completedAt,
+  };
+};
+
+const migrateProfile = (value: unknown): LearnerProfile | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.name !== "string"
+  ) {
+    return null;
+  }
+  const position = isRecord(value.position) ? value.position : {};
+  return {
+    id: value.id,
+    name: value.name,
+    createdAt: isNumber(value.createdAt) ? value.createdAt : Date.now(),
+    preferences: migratePreferences(value.preferences),
+    position: {
+      text: typeof position.text === "string" ? position.text : DEFAULT_TEXT,
+      index: isNumber(position.index) ? position.index : 0,
+      lessonId: typeof position.lessonId === "string" ? position.lessonId : null,
+    },
+    history: (Array.isArray(value.history) ? value.history : [])
+      .map(migrateHistoryEntry)
+      .filter((entry): entry is CompletedCharacter => entry !== null),
+  };
+};
+
+export const loadProfileStore = (): ProfileStore => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return createDefaultStore();
+    const data: unknown = JSON.parse(raw);
+    if (!isRecord(data) || !Array.isArray(data.profiles)) {
+      return createDefaultStore();
+    }
+    // 補上之後新增的偏好與紀錄欄位，略過損毀的學習者
+    const profiles = data.profiles
+      .map(migrateProfile)
+      .filter((profile): profile is LearnerProfile => profile !== null);
+    if (profiles.length === 0) return createDefaultStore();
+    const activeId =
+      profiles.find((p) => p.id === data.activeId)?.id ?? profiles[0].id;
+    return { activeId, profiles };
+  } catch (error) {
+    console.error("Profile Load Error:", error);
+    return createDefaultStore();
+  }
+};
+
+export const saveProfileStore = (store: ProfileStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error("Profile Save Error:", error);
+  }
+};
+
+export const getActiveProfile = (store: ProfileStore) =>
+  store.profiles.find((p) => p.id === store.activeId) ?? store.profiles[0];
+
+export const updateProfile = (
+  store: ProfileStore,
+  id: string,
+  update: (profile: LearnerProfile) => LearnerProfile
+): ProfileStore => ({
+  ...store,
+  profiles: store.profiles.map((p) => (p.id === id ? update(p) : p)),
+});
+
+/**
+ * 新增一筆完成紀錄 (只保留最近 MAX_HISTORY 筆)
+ */
+export const recordCompletion = (
+  profile: LearnerProfile,
+  entry: CompletedCharacter
+): LearnerProfile => ({
+  ...profile,
+  history: [...profile.history, entry].slice(-MAX_HISTORY),
+});
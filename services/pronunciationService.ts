@@ -0,0 +1,207 @@
+import {
+  BrowserSpeechRecognition,
+  PitchPoint,
+  PronunciationResult,
+  RecognitionSession,
+  SpeechRecognizer,
+} from "../types";
+import { classifyTone, extractPitchContour } from "./pitchService";
+import { lookupLocalDictionary } from "./localDictionaryService";
+import { toneMarksToNumbered } from "./pinyinService";
+
+/**
+ * 發音練習
+ *
+ * 同時錄音 (分析音高曲線) 與語音辨識 (判斷音節)；辨識器可替換，
+ * 預設使用瀏覽器的 Web Speech 辨識，也可以 registerRecognizer 加入本地辨識器並調整順序。
+ */
+
+const MAX_RECORDING_MS = 3000;
+
+const getRecognitionConstructor = (): (new () => BrowserSpeechRecognition) | null =>
+  typeof window === "undefined"
+    ? null
+    : window.SpeechRecognition || window.webkitSpeechRecognition || null;
+
+export const webSpeechRecognizer: SpeechRecognizer = {
+  name: "web",
+  label: "瀏覽器語音辨識",
+  isAvailable: () => getRecognitionConstructor() !== null,
+  start: ({ lang }): RecognitionSession => {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) throw new Error("此瀏覽器不支援語音辨識");
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.interimResults = false;
+    recognition.maxAlternatives = 5;
+
+    const transcripts: string[] = [];
+    const result = new Promise<string[]>((resolve) => {
+      recognition.onresult = (event) => {
+        for (let i = 0; i < event.results.length; i++) {
+          for (let j = 0; j < event.results[i].length; j++) {
+            transcripts.push(event.results[i][j].transcript.trim());
+          }
+        }
+      };
+      recognition.onerror = (event) => {
+        if (event.error !== "no-speech" && event.error !== "aborted") {
+          console.error("Speech Recognition Error:", event.error);
+        }
+      };
+      recognition.onend = () => resolve(transcripts.filter(Boolean));
+    });
+    recognition.start();
+
+    return { stop: () => recognition.stop(), result };
+  },
+};
+
+const recognizers: Record<string, SpeechRecognizer> = {
+  [webSpeechRecognizer.name]: webSpeechRecognizer,
+};
+let recognizerOrder = [webSpeechRecognizer.name];
+
+export const registerRecognizer = (recognizer: SpeechRecognizer, first = true) => {
+  recognizers[recognizer.name] = recognizer;
+  recognizerOrder = first
+    ? [recognizer.name, ...recognizerOrder.filter((n) => n !== recognizer.name)]
+    : [...recognizerOrder.filter((n) => n !== recognizer.name), recognizer.name];
+};
+
+export const getRecognizer = () =>
+  recognizerOrder.map((name) => recognizers[name]).find((r) => r?.isAvailable()) ||
+  null;
+
+export const isRecordingSupported = () =>
+  typeof navigator !== "undefined" &&
+  !!navigator.mediaDevices?.getUserMedia &&
+  typeof MediaRecorder !== "undefined";
+
+export interface PronunciationRecording {
+  // 停止錄音 (超過 MAX_RECORDING_MS 也會自動停止)，回傳辨識文字與音高曲線
+  finished: Promise<{ transcripts: string[]; contour: PitchPoint[] }>;
+  stop: () => void;
+}
+
+const decodeSamples = async (blob: Blob) => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+    return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+  } finally {
+    context.close();
+  }
+};
+
+export const startPronunciationRecording = async (
+  lang: string
+): Promise<PronunciationRecording> => {
+  if (!isRecordingSupported()) throw new Error("此瀏覽器不支援錄音");
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch (error) {
+    console.error("Microphone Error:", error);
+    throw new Error("無法使用麥克風，請確認瀏覽器權限");
+  }
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const recorded = new Promise<Blob>((resolve) => {
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    };
+  });
+
+  const recognizer = getRecognizer();
+  let session: RecognitionSession | null = null;
+  try {
+    session = recognizer?.start({ lang, stream }) ?? null;
+  } catch (error) {
+    console.error("Speech Recognition Error:", error);
+  }
+  recorder.start();
+
+  const stop = () => {
+    window.clearTimeout(timer);
+    if (recorder.state !== "inactive") recorder.stop();
+    session?.stop();
+  };
+  const timer = window.setTimeout(stop, MAX_RECORDING_MS);
+
+  const finished = (async () => {
+    const blob = await recorded;
+    const [transcripts, contour] = await Promise.all([
+      session?.result ?? Promise.resolve([]),
+      decodeSamples(blob)
+        .then(({ samples, sampleRate }) => extractPitchContour(samples, sampleRate))
+        .catch((error) => {
+          console.error("Pitch Analysis Error:", error);
+          return [] as PitchPoint[];
+        }),
+    ]);
+    return { transcripts, contour };
+  })();
+
+  return { finished, stop };
+};
+
+// 拼音去掉聲調，例如 `hǎo` → `hao`
+const toBaseSyllable = (numbered: string) => numbered.replace(/[1-5]$/, "");
+const toneOf = (numbered: string) => Number(numbered.match(/[1-5]$/)?.[0] ?? 5);
+
+/**
+ * 比對辨識結果與音高曲線：音節以辨識文字判斷 (辨識出同一個字，或讀音相同的字)，
+ * 聲調以音高曲線的形狀判斷 (辨識器常會自動修正聲調，不可靠)
+ */
+export const evaluatePronunciation = async (
+  char: string,
+  pinyin: string,
+  transcripts: string[],
+  contour: PitchPoint[]
+): Promise<PronunciationResult> => {
+  const expectedPinyin = pinyin.split(/[\s,，、/;]+/).filter(Boolean)[0] ?? pinyin;
+  const expectedNumbered = toneMarksToNumbered(expectedPinyin);
+  const expectedTone = toneOf(expectedNumbered);
+
+  let heardPinyin: string | null = null;
+  let syllableMatch: boolean | null = transcripts.length > 0 ? false : null;
+  if (transcripts.some((text) => text.includes(char))) {
+    heardPinyin = expectedPinyin;
+    syllableMatch = true;
+  } else {
+    const heardChars = [...new Set(transcripts.join("").split(""))].filter((c) =>
+      /\p{Script=Han}/u.test(c)
+    );
+    for (const heard of heardChars) {
+      const info = await lookupLocalDictionary(heard);
+      if (!info?.pinyin) continue;
+      heardPinyin = heardPinyin ?? info.pinyin;
+      if (toBaseSyllable(toneMarksToNumbered(info.pinyin)) === toBaseSyllable(expectedNumbered)) {
+        heardPinyin = info.pinyin;
+        syllableMatch = true;
+        break;
+      }
+    }
+  }
+
+  const detectedTone = classifyTone(contour);
+  return {
+    char,
+    expectedPinyin,
+    expectedTone,
+    transcripts,
+    heardPinyin,
+    syllableMatch,
+    detectedTone,
+    // 輕聲沒有固定調型，不判斷
+    toneMatch:
+      detectedTone === null ? null : expectedTone === 5 ? true : detectedTone === expectedTone,
+    contour,
+  };
+};
@@ -0,0 +1,73 @@
+import { QuizResult, StrokeResult } from "../types";
+
+// HanziWriter 預設在同一筆錯誤 3 次後顯示提示 (測驗模式可改為其他次數或不提示)
+export const HINT_AFTER_MISSES = 3;
+
+/**
+ * 記錄一次測驗過程中的筆劃事件，完成時產生 QuizResult
+ */
+export class QuizTracker {
+  private char: string;
+  private hintAfterMisses: number | false;
+  private startedAt: number;
+  private lastStrokeAt: number;
+  private mistakesByStroke: Record<number, number> = {};
+  private strokes: StrokeResult[] = [];
+
+  constructor(
+    char: string,
+    hintAfterMisses: number | false = HINT_AFTER_MISSES,
+    now: number = Date.now()
+  ) {
+    this.char = char;
+    this.hintAfterMisses = hintAfterMisses;
+    this.startedAt = now;
+    this.lastStrokeAt = now;
+  }
+
+  recordMistake(strokeNum: number) {
+    this.mistakesByStroke[strokeNum] =
+      (this.mistakesByStroke[strokeNum] || 0) + 1;
+  }
+
+  recordCorrectStroke(strokeNum: number, now: number = Date.now()) {
+    const mistakes = this.mistakesByStroke[strokeNum] || 0;
+    this.strokes.push({
+      strokeNum,
+      mistakes,
+      hintShown:
+        this.hintAfterMisses !== false && mistakes >= this.hintAfterMisses,
+      durationMs: now - this.lastStrokeAt,
+    });
+    this.lastStrokeAt = now;
+  }
+
+  finish(now: number = Date.now()): QuizResult {
+    const totalMistakes = this.strokes.reduce((sum, s) => sum + s.mistakes, 0);
+    return {
+      char: this.char,
+      strokes: [...this.strokes],
+      totalMistakes,
+      hintsUsed: this.strokes.filter((s) => s.hintShown).length,
+      totalDurationMs: now - this.startedAt,
+      accuracy: calculateAccuracy(this.strokes.length, totalMistakes),
+      startedAt: this.startedAt,
+      completedAt: now,
+    };
+  }
+}
+
+/**
+ * 正確率 = 筆劃數 / (筆劃數 + 錯誤次數)
+ */
+export const calculateAccuracy = (strokeCount: number, mistakes: number) => {
+  if (strokeCount <= 0) return 0;
+  return Math.round((strokeCount / (strokeCount + mistakes)) * 100);
+};
+
+export const getAccuracyGrade = (accuracy: number) => {
+  if (accuracy >= 90) return "優";
+  if (accuracy >= 75) return "良";
+  if (accuracy >= 60) return "可";
+  return "待加強";
+};
@@ -0,0 +1,60 @@
+import { RubyMode } from "../types";
+import { lookupLocalReadings } from "./localDictionaryService";
+import { getGeminiReadings } from "./geminiService";
+import { numberedToToneMarks, numberedToZhuyin } from "./pinyinService";
+
+/**
+ * 整段文字的逐字讀音 (注音 / 拼音標注用)
+ *
+ * 先一次查詢本地字典，查不到的字與破音字再以一次 Gemini 請求依上下文判斷，
+ * 不會對每個字分別呼叫 getCharacterInsights。Gemini 無法使用時破音字採字典的主要讀音。
+ */
+
+// 太長的文字不送 Gemini，避免單次請求過大
+const MAX_GEMINI_CHARS = 400;
+
+const isHan = (char: string) => /\p{Script=Han}/u.test(char);
+
+/**
+ * 回傳與 chars 等長的數字聲調拼音，非中文或查不到時為 null
+ */
+export const getTextReadings = async (
+  chars: string[],
+  isSimplified: boolean = false
+): Promise<(string | null)[]> => {
+  const local = await lookupLocalReadings(chars);
+  const readings = local.map(({ reading }) => reading);
+  const needsContext = (i: number) =>
+    isHan(chars[i]) && (readings[i] === null || local[i].isPolyphone);
+  if (!chars.some((_, i) => needsContext(i)) || chars.length > MAX_GEMINI_CHARS) {
+    return readings;
+  }
+
+  const geminiReadings = await getGeminiReadings(chars, isSimplified);
+  return readings.map((reading, i) =>
+    needsContext(i) ? geminiReadings?.[i] ?? reading : reading
+  );
+};
+
+/**
+ * 依標注方式轉換單一讀音
+ */
+export const formatReading = (reading: string | null, mode: RubyMode) => {
+  if (!reading || mode === "none") return "";
+  return mode === "zhuyin"
+    ? numberedToZhuyin(reading)
+    : numberedToToneMarks(reading);
+};
+
+// 注音的聲調符號 (輕聲點另外處理)
+const ZHUYIN_TONE_MARKS = /[ˊˇˋ]/;
+
+/**
+ * 直式注音：拆成符號本體與聲調，直排時聲調標在右側、輕聲點標在上方
+ */
+export const splitZhuyin = (zhuyin: string) => {
+  const isNeutral = zhuyin.startsWith("˙");
+  const body = zhuyin.replace(/[˙ˉˊˇˋ]/g, "");
+  const tone = zhuyin.match(ZHUYIN_TONE_MARKS)?.[0] ?? "";
+  return { body, tone, isNeutral };
+};
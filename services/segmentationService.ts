@@ -0,0 +1,49 @@
+/**
+ * 斷詞服務
+ *
+ * 使用瀏覽器內建的 Intl.Segmenter 將練習文字切成詞語；
+ * 不支援的瀏覽器則退回逐字切分。索引以導覽列的字元 (去除空白) 為準。
+ */
+
+export interface WordSegment {
+  word: string;
+  start: number; // 第一個字在導覽列中的索引
+  end: number; // 最後一個字的下一個索引
+}
+
+const isHan = (text: string) => /\p{Script=Han}/u.test(text);
+
+export const segmentWords = (
+  characters: string[],
+  isSimplified: boolean = false
+): WordSegment[] => {
+  const text = characters.join("");
+  const segments: WordSegment[] = [];
+
+  if (typeof Intl === "undefined" || !("Segmenter" in Intl)) {
+    return characters.map((char, i) => ({ word: char, start: i, end: i + 1 }));
+  }
+
+  const segmenter = new Intl.Segmenter(isSimplified ? "zh-CN" : "zh-TW", {
+    granularity: "word",
+  });
+
+  let index = 0;
+  for (const { segment } of segmenter.segment(text)) {
+    const length = segment.split("").length;
+    // 標點等非中文片段仍逐字切開，確保每個字都屬於某個片段
+    if (!isHan(segment) && length > 1) {
+      segment.split("").forEach((char, i) =>
+        segments.push({ word: char, start: index + i, end: index + i + 1 })
+      );
+    } else {
+      segments.push({ word: segment, start: index, end: index + length });
+    }
+    index += length;
+  }
+  return segments;
+};
+
+export const findWordAt = (segments: WordSegment[], index: number) =>
+  segments.find((segment) => index >= segment.start && index < segment.end) ||
+  null;
@@ -0,0 +1,80 @@
+import {
+  SpeakOptions,
+  SpeechPlayback,
+  SpeechProvider,
+  SpeechProviderId,
+} from "../types";
+import { webSpeechProvider } from "./webSpeechService";
+import { cloudSpeechProvider } from "./ttsService";
+import { geminiSpeechProvider } from "./geminiService";
+
+/**
+ * 語音服務
+ *
+ * 統一瀏覽器內建語音、Google Cloud TTS 與 Gemini 語音的播放與停止。
+ * 先使用選擇的來源，失敗 (或無法使用) 時依 FALLBACK_ORDER 改用其他來源。
+ */
+
+const FALLBACK_ORDER: SpeechProviderId[] = ["web", "cloud", "gemini"];
+
+const providers: Record<SpeechProviderId, SpeechProvider> = {
+  web: webSpeechProvider,
+  cloud: cloudSpeechProvider,
+  gemini: geminiSpeechProvider,
+};
+
+// 每次播放或停止都會遞增；雲端語音下載完成時若已不是最新的請求就直接停止
+let generation = 0;
+
+export const getSpeechProviders = () => FALLBACK_ORDER.map((name) => providers[name]);
+
+export const getSpeechProvider = (name: SpeechProviderId) =>
+  providers[name] || webSpeechProvider;
+
+export const stopSpeech = () => {
+  generation += 1;
+  Object.values(providers).forEach((provider) => provider.stop());
+};
+
+/**
+ * 播放文字，回傳實際使用的來源與可停止的播放控制
+ */
+export const speak = async (
+  text: string,
+  preferred: SpeechProviderId,
+  options: SpeakOptions
+): Promise<{ provider: SpeechProviderId; playback: SpeechPlayback }> => {
+  stopSpeech();
+  const request = generation;
+  const order = [preferred, ...FALLBACK_ORDER.filter((name) => name !== preferred)];
+
+  let lastError: unknown = null;
+  for (const name of order) {
+    const provider = providers[name];
+    if (!provider?.isAvailable()) continue;
+
+    try {
+      // 只有選擇的來源才指定語音，備援來源使用各自的預設語音
+      const playback = await provider.speak(text, {
+        ...options,
+        voiceId: name === preferred ? options.voiceId : null,
+      });
+      if (request !== generation) {
+        playback.stop();
+        return { provider: name, playback };
+      }
+      if (name !== preferred) {
+        console.warn(`Speech Fallback: ${preferred} → ${name}`);
+      }
+      return { provider: name, playback };
+    } catch (error) {
+      console.error(`Speech Provider Error (${name}):`, error);
+      lastError = error;
+      // 等待期間已被停止，不再改用其他來源
+      if (request !== generation) {
+        return { provider: name, playback: { stop: () => {}, finished: Promise.resolve() } };
+      }
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("沒有可用的語音");
+};
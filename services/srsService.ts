@@ -0,0 +1,205 @@
+import { QuizResult } from "../types";
+
+/**
+ * 間隔重複 (Spaced Repetition) 排程服務
+ *
+ * 採用 SM-2 演算法：依每次測驗的表現 (0 - 5 分) 調整難易係數與下次複習間隔。
+ * 卡片以「字 + 字體」為鍵，與 getCharacterInsights 的快取鍵相同 (`永_t` / `永_s`)，
+ * 資料存於 localStorage，重新整理後仍保留；每位學習者各有一份排程。
+ */
+
+const STORAGE_KEY = "zenscribe.srs.v1";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export interface ReviewCard {
+  key: string;
+  char: string;
+  isSimplified: boolean;
+  ease: number; // 難易係數 (EF)
+  interval: number; // 天
+  repetitions: number; // 連續答對次數
+  dueAt: number;
+  lastReviewedAt: number;
+  lapses: number; // 忘記次數
+}
+
+export type ReviewStore = Record<string, ReviewCard>;
+
+export const getReviewKey = (char: string, isSimplified: boolean) =>
+  `${char}_${isSimplified ? "s" : "t"}`;
+
+/**
+ * 將測驗結果轉換為 SM-2 的 0 - 5 分
+ */
+export const gradeFromQuizResult = (result: QuizResult): number => {
+  if (result.strokes.length === 0) return 0;
+  if (result.hintsUsed > 0) return result.accuracy >= 60 ? 2 : 1;
+  if (result.totalMistakes === 0) return 5;
+  if (result.accuracy >= 85) return 4;
+  if (result.accuracy >= 60) return 3;
+  return 2;
+};
+
+export const createCard = (
+  char: string,
+  isSimplified: boolean,
+  now: number = Date.now()
+): ReviewCard => ({
+  key: getReviewKey(char, isSimplified),
+  char,
+  isSimplified,
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now,
+  lastReviewedAt: 0,
+  lapses: 0,
+});
+
+/**
+ * SM-2：依分數計算下一次的複習時間
+ */
+export const scheduleReview = (
+  card: ReviewCard,
+  quality: number,
+  now: number = Date.now()
+): ReviewCard => {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+
+  let ease = card.ease;
+  let repetitions: number;
+  let interval: number;
+  let lapses = card.lapses;
+
+  if (q < 3) {
+    // 答錯：重新開始，隔天再複習；難易係數維持不變
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    ease = Math.max(
+      MIN_EASE,
+      card.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+    );
+    repetitions = card.repetitions + 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(card.interval * ease);
+  }
+
+  return {
+    ...card,
+    ease,
+    interval,
+    repetitions,
+    lapses,
+    lastReviewedAt: now,
+    dueAt: now + interval * DAY_MS,
+  };
+};
+
+// 預設學習者沿用建立學習者功能之前的鍵值
+const getStorageKey = (profileId: string) =>
+  profileId === "default" ? STORAGE_KEY : `${STORAGE_KEY}.${profileId}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+// 已儲存的卡片：缺少字或排程欄位的視為損毀並略過
+const parseStoredCard = (value: unknown): ReviewCard | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.char !== "string" ||
+    typeof value.isSimplified !== "boolean" ||
+    !isNumber(value.ease) ||
+    !isNumber(value.interval) ||
+    !isNumber(value.repetitions) ||
+    !isNumber(value.dueAt)
+  ) {
+    return null;
+  }
+  return {
+    key: getReviewKey(value.char, value.isSimplified),
+    char: value.char,
+    isSimplified: value.isSimplified,
+    ease: Math.max(MIN_EASE, value.ease),
+    interval: value.interval,
+    repetitions: value.repetitions,
+    dueAt: value.dueAt,
+    lastReviewedAt: isNumber(value.lastReviewedAt) ? value.lastReviewedAt : 0,
+    lapses: isNumber(value.lapses) ? value.lapses : 0,
+  };
+};
+
+export const loadReviewStore = (profileId = "default"): ReviewStore => {
+  try {
+    const raw = localStorage.getItem(getStorageKey(profileId));
+    const data: unknown = raw ? JSON.parse(raw) : {};
+    if (!isRecord(data)) return {};
+    const store: ReviewStore = {};
+    Object.values(data).forEach((value) => {
+      const card = parseStoredCard(value);
+      if (card) store[card.key] = card;
+    });
+    return store;
+  } catch (error) {
+    console.error("SRS Load Error:", error);
+    return {};
+  }
+};
+
+export const saveReviewStore = (store: ReviewStore, profileId = "default") => {
+  try {
+    localStorage.setItem(getStorageKey(profileId), JSON.stringify(store));
+  } catch (error) {
+    console.error("SRS Save Error:", error);
+  }
+};
+
+export const deleteReviewStore = (profileId: string) => {
+  try {
+    localStorage.removeItem(getStorageKey(profileId));
+  } catch (error) {
+    console.error("SRS Save Error:", error);
+  }
+};
+
+/**
+ * 記錄一次測驗結果並回傳更新後的排程
+ */
+export const recordQuizOutcome = (
+  store: ReviewStore,
+  result: QuizResult,
+  isSimplified: boolean,
+  now: number = Date.now()
+): ReviewStore => {
+  const key = getReviewKey(result.char, isSimplified);
+  const card = store[key] || createCard(result.char, isSimplified, now);
+  return {
+    ...store,
+    [key]: scheduleReview(card, gradeFromQuizResult(result), now),
+  };
+};
+
+/**
+ * 取得到期 (今日) 需要複習的卡片，最久未複習者優先
+ */
+export const getDueCards = (
+  store: ReviewStore,
+  isSimplified: boolean,
+  now: number = Date.now()
+): ReviewCard[] => {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return Object.values(store)
+    .filter(
+      (card) =>
+        card.isSimplified === isSimplified &&
+        card.dueAt <= endOfToday.getTime()
+    )
+    .sort((a, b) => a.dueAt - b.dueAt);
+};
@@ -0,0 +1,180 @@
+import { CompletedCharacter } from "../types";
+
+/**
+ * 學習統計：由學習者的完成紀錄計算每日、每字與筆劃層級的統計
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ScriptFilter = "all" | "traditional" | "simplified";
+
+export interface HistoryFilter {
+  lessonId: string | "all"; // "custom" 代表非課程庫的自訂文字
+  script: ScriptFilter;
+}
+
+export interface DailyStats {
+  date: string; // YYYY-MM-DD (本地時間)
+  count: number;
+  accuracy: number | null; // 當日平均分數，無紀錄時為 null
+  durationMs: number;
+}
+
+export interface CharacterStats {
+  char: string;
+  attempts: number;
+  averageScore: number;
+  mistakes: number;
+  lastPracticedAt: number;
+}
+
+export interface StrokeStats {
+  char: string;
+  strokeNum: number;
+  misses: number;
+}
+
+export const toDateKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// 以日曆日位移，避免日光節約時間造成日期重複或缺漏
+const shiftDays = (timestamp: number, days: number) => {
+  const d = new Date(timestamp);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+export const filterHistory = (
+  history: CompletedCharacter[],
+  filter: HistoryFilter
+) =>
+  history.filter((entry) => {
+    if (filter.script === "traditional" && entry.isSimplified) return false;
+    if (filter.script === "simplified" && !entry.isSimplified) return false;
+    if (filter.lessonId === "all") return true;
+    if (filter.lessonId === "custom") return entry.lessonId === null;
+    return entry.lessonId === filter.lessonId;
+  });
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length)
+    : null;
+
+/**
+ * 最近 days 天 (含今天) 的每日統計，沒有練習的日子也列出
+ */
+export const getDailyStats = (
+  history: CompletedCharacter[],
+  days = 14,
+  now: number = Date.now()
+): DailyStats[] => {
+  const byDate = new Map<string, CompletedCharacter[]>();
+  history.forEach((entry) => {
+    const key = toDateKey(entry.completedAt);
+    byDate.set(key, [...(byDate.get(key) ?? []), entry]);
+  });
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = toDateKey(shiftDays(now, i - (days - 1)));
+    const entries = byDate.get(date) ?? [];
+    return {
+      date,
+      count: entries.length,
+      accuracy: average(entries.map((e) => e.score)),
+      durationMs: entries.reduce((sum, e) => sum + e.durationMs, 0),
+    };
+  });
+};
+
+/**
+ * 連續練習天數：current 為到今天 (或昨天) 為止的連續天數
+ */
+export const getStreaks = (
+  history: CompletedCharacter[],
+  now: number = Date.now()
+) => {
+  const dates = new Set(history.map((e) => toDateKey(e.completedAt)));
+  const sorted = [...dates].sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  sorted.forEach((date) => {
+    const day = new Date(`${date}T00:00:00`).getTime();
+    // 四捨五入以容許日光節約造成的一小時誤差
+    run = previous !== null && Math.round((day - previous) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  let current = 0;
+  let cursor = dates.has(toDateKey(now)) ? now : shiftDays(now, -1);
+  while (dates.has(toDateKey(cursor))) {
+    current += 1;
+    cursor = shiftDays(cursor, -1);
+  }
+  return { current, longest };
+};
+
+export const getCharacterStats = (
+  history: CompletedCharacter[]
+): CharacterStats[] => {
+  const byChar = new Map<string, CompletedCharacter[]>();
+  history.forEach((entry) => {
+    byChar.set(entry.char, [...(byChar.get(entry.char) ?? []), entry]);
+  });
+  return [...byChar.entries()].map(([char, entries]) => ({
+    char,
+    attempts: entries.length,
+    averageScore: average(entries.map((e) => e.score)) ?? 0,
+    mistakes: entries.reduce((sum, e) => sum + e.mistakes, 0),
+    lastPracticedAt: Math.max(...entries.map((e) => e.completedAt)),
+  }));
+};
+
+/**
+ * 錯誤最多的字 (錯誤次數相同時平均分數低者在前)
+ */
+export const getMostMissedCharacters = (
+  stats: CharacterStats[],
+  limit = 10
+) =>
+  stats
+    .filter((s) => s.mistakes > 0)
+    .sort((a, b) => b.mistakes - a.mistakes || a.averageScore - b.averageScore)
+    .slice(0, limit);
+
+export const getMostMissedStrokes = (
+  history: CompletedCharacter[],
+  limit = 10
+): StrokeStats[] => {
+  const counts = new Map<string, StrokeStats>();
+  history.forEach((entry) => {
+    entry.missedStrokes.forEach((strokeNum) => {
+      const key = `${entry.char}#${strokeNum}`;
+      const stats = counts.get(key) ?? { char: entry.char, strokeNum, misses: 0 };
+      stats.misses += 1;
+      counts.set(key, stats);
+    });
+  });
+  return [...counts.values()]
+    .sort((a, b) => b.misses - a.misses)
+    .slice(0, limit);
+};
+
+export const getSummary = (history: CompletedCharacter[]) => ({
+  attempts: history.length,
+  uniqueCharacters: new Set(history.map((e) => e.char)).size,
+  averageScore: average(history.map((e) => e.score)),
+  totalDurationMs: history.reduce((sum, e) => sum + e.durationMs, 0),
+});
+
+export const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} 分`;
+  return `${Math.floor(minutes / 60)} 小時 ${minutes % 60} 分`;
+};
@@ -0,0 +1,192 @@
+import type { CharacterJson, CharDataLoaderFn } from "hanzi-writer";
+import { STORES, idbGet, idbPut } from "./idbStore";
+
+/**
+ * 筆順資料載入服務 (Offline-first)
+ *
+ * 載入順序：記憶體 → IndexedDB 快取 → 已註冊的資料包 (依註冊順序)。
+ * 從資料包取得的資料會連同資料包名稱寫入 IndexedDB，之後即使離線也能使用；
+ * 快取來自較後面的資料包 (例如 CDN) 時，每次載入仍會先詢問前面的資料包一次，
+ * 讓之後才建立的本地資料包 (例如含部件資料的 --mmah) 取代舊的快取。
+ *
+ * 預設資料包：
+ * - local: 由 `npm run build:strokes` 複製到 public/hanzi-data 的本地資料 (例如 4,800 常用字)
+ * - cdn:   jsDelivr 上的 hanzi-writer-data，僅在連線時作為最後備援
+ */
+
+// 以 Make Me a Hanzi 資料建立的資料包會另外帶有部件對應 (matches)
+export type StrokeDataJson = CharacterJson & {
+  matches?: (number[] | null)[];
+  decomposition?: string;
+};
+
+export interface StrokeDataPack {
+  name: string;
+  load: (char: string) => Promise<StrokeDataJson | null>;
+}
+
+export interface StrokeComponents {
+  radical: number[]; // 部首的筆劃索引
+  components: number[][]; // 依部件分組的筆劃索引 (需要 matches 資料)
+}
+
+export class StrokeDataNotFoundError extends Error {
+  char: string;
+
+  constructor(char: string) {
+    super(`找不到「${char}」的筆順資料`);
+    this.name = "StrokeDataNotFoundError";
+    this.char = char;
+  }
+}
+
+const LOCAL_DATA_URL = "/hanzi-data";
+const CDN_DATA_URL = "https://cdn.jsdelivr.net/npm/hanzi-writer-data@2.0.1";
+
+const fetchJsonPack = (name: string, baseUrl: string): StrokeDataPack => ({
+  name,
+  load: async (char) => {
+    try {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(char)}.json`);
+      if (!response.ok) return null;
+      return (await response.json()) as StrokeDataJson;
+    } catch {
+      // 離線或資料包中沒有此字
+      return null;
+    }
+  },
+});
+
+export const localStrokePack = fetchJsonPack("local", LOCAL_DATA_URL);
+export const cdnStrokePack = fetchJsonPack("cdn", CDN_DATA_URL);
+
+const packs: StrokeDataPack[] = [localStrokePack, cdnStrokePack];
+const memoryCache: Record<string, StrokeDataJson> = {};
+
+// 舊版快取直接存 StrokeDataJson，沒有來源資料包
+interface CachedStrokeData {
+  pack: string;
+  data: StrokeDataJson;
+}
+
+const readCache = async (char: string): Promise<CachedStrokeData | null> => {
+  const cached = await idbGet<CachedStrokeData | StrokeDataJson>(
+    STORES.strokeData,
+    char
+  );
+  if (!cached) return null;
+  return "pack" in cached && "data" in cached
+    ? cached
+    : { pack: "", data: cached as StrokeDataJson };
+};
+
+/**
+ * 註冊額外的資料包，預設插在 CDN 備援之前
+ */
+export const registerStrokeDataPack = (pack: StrokeDataPack) => {
+  const cdnIndex = packs.indexOf(cdnStrokePack);
+  packs.splice(cdnIndex === -1 ? packs.length : cdnIndex, 0, pack);
+};
+
+export const loadStrokeData = async (
+  char: string
+): Promise<StrokeDataJson | null> => {
+  if (!char) return null;
+  if (memoryCache[char]) return memoryCache[char];
+
+  let cached: CachedStrokeData | null = null;
+  try {
+    cached = await readCache(char);
+  } catch (error) {
+    console.warn("Stroke Data Cache Error:", error);
+  }
+
+  // 只詢問比快取來源優先的資料包 (沒有快取時詢問全部)
+  const cachedIndex = cached ? packs.findIndex((p) => p.name === cached!.pack) : -1;
+  const candidates = cached && cachedIndex !== -1 ? packs.slice(0, cachedIndex) : packs;
+  for (const pack of candidates) {
+    const data = await pack.load(char);
+    if (data) {
+      memoryCache[char] = data;
+      const entry: CachedStrokeData = { pack: pack.name, data };
+      idbPut(STORES.strokeData, char, entry).catch((error) =>
+        console.warn("Stroke Data Cache Error:", error)
+      );
+      return data;
+    }
+  }
+
+  if (cached) {
+    memoryCache[char] = cached.data;
+    return cached.data;
+  }
+  return null;
+};
+
+/**
+ * 預先下載一組字的筆順資料到 IndexedDB，回傳缺少資料的字
+ */
+export const prefetchStrokeData = async (chars: string[]) => {
+  const missing: string[] = [];
+  for (const char of new Set(chars)) {
+    if (!(await loadStrokeData(char))) missing.push(char);
+  }
+  return missing;
+};
+
+/**
+ * 提供給 HanziWriter 的 charDataLoader
+ */
+export const strokeDataLoader: CharDataLoaderFn = (char, onLoad, onError) => {
+  loadStrokeData(char)
+    .then((data) => {
+      if (data) onLoad(data);
+      else onError(new StrokeDataNotFoundError(char));
+    })
+    .catch(onError);
+};
+
+/**
+ * 由筆順資料取出部首與各部件的筆劃
+ *
+ * matches 為每一筆在 Make Me a Hanzi 拆字樹中的路徑 (例如 [0]、[1, 0])，
+ * 以第一層索引分組即為「左右」「上下」等主要部件。
+ */
+export const getStrokeComponents = (data: StrokeDataJson): StrokeComponents => {
+  const groups: Record<number, number[]> = {};
+  data.matches?.forEach((match, strokeNum) => {
+    if (!match || match.length === 0) return;
+    (groups[match[0]] ||= []).push(strokeNum);
+  });
+  return {
+    radical: data.radStrokes || [],
+    components: Object.keys(groups)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map((key) => groups[key]),
+  };
+};
+
+/**
+ * 與 HanziWriter 相同的座標轉換：筆順資料使用 1024 × 1024 (y 軸向上，下緣 -124) 的座標系
+ */
+export const getStrokeTransform = (size: number, padding: number) => {
+  const scale = (size - 2 * padding) / 1024;
+  return `translate(${padding}, ${size - padding - 124 * scale}) scale(${scale}, ${-scale})`;
+};
+
+/**
+ * getStrokeTransform 的反向轉換：將寫字板上的像素座標換回筆順資料座標
+ */
+export const toStrokeSpace = (
+  size: number,
+  padding: number,
+  px: number,
+  py: number
+) => {
+  const scale = (size - 2 * padding) / 1024;
+  return {
+    x: (px - padding) / scale,
+    y: (size - padding - 124 * scale - py) / scale,
+  };
+};
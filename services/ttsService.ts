@@ -11,15 +11,118 @@
  * 
  * 若要「統一品質」，建議使用 OpenAI TTS 或 Google Cloud TTS。
  * 此範例實作 Google Cloud TTS (透過 REST API)。
+ * App 不直接呼叫這裡，而是透過 speechService 的 SpeechProvider 統一播放與停止。
  */
 
+import { SpeechBoundary, SpeechPlayback, SpeechProvider } from "../types";
+import { createPersistentCache } from "./cacheService";
+
 const GOOGLE_TTS_API_URL = "https://texttospeech.googleapis.com/v1/text:synthesize";
+// SSML <mark> 的時間點 (timepoints) 目前只有 v1beta1 提供
+const GOOGLE_TTS_BETA_API_URL =
+  "https://texttospeech.googleapis.com/v1beta1/text:synthesize";
+
+// 相同文字與語音的 MP3 (Base64) 直接由快取播放，不再重複請求
+const cloudSpeechCache = createPersistentCache<string>({ namespace: "cloud-tts", maxEntries: 300 });
+
+interface MarkedSpeech {
+  audioContent: string;
+  timepoints: { markName: string; timeSeconds: number }[];
+}
+
+const markedSpeechCache = createPersistentCache<MarkedSpeech>({
+  namespace: "cloud-tts-marks",
+  maxEntries: 100,
+});
+
+const fetchCloudSpeech = async (
+  text: string,
+  apiKey: string,
+  languageCode: string,
+  voiceName: string
+): Promise<string> => {
+  const response = await fetch(`${GOOGLE_TTS_API_URL}?key=${apiKey}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      input: { text: text },
+      voice: { languageCode: languageCode, name: voiceName },
+      audioConfig: { audioEncoding: "MP3", speakingRate: 0.85 } // 稍微放慢
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error?.message || "Google TTS 請求失敗");
+  }
+
+  const data = await response.json();
+  return data.audioContent; // Base64 string
+};
+
+const getCloudVoice = (isSimplified: boolean) => ({
+  voiceName: isSimplified ? "cmn-CN-Wavenet-A" : "cmn-TW-Wavenet-A",
+  languageCode: isSimplified ? "cmn-CN" : "cmn-TW",
+});
+
+/**
+ * 播放音訊並包裝成可中途停止的 SpeechPlayback；
+ * 提供 marks 時依播放時間回報目前唸到的字。播放中途解碼或載入失敗時 finished 會 reject
+ */
+const playAudio = async (
+  audio: HTMLAudioElement,
+  marks: { index: number; time: number }[] = [],
+  onBoundary?: (boundary: SpeechBoundary) => void
+): Promise<SpeechPlayback> => {
+  let frame = 0;
+  let lastIndex = -1;
+  let resolveFinished = () => {};
+  let rejectFinished = (_error: unknown) => {};
+  const finished = new Promise<void>((resolve, reject) => {
+    resolveFinished = resolve;
+    rejectFinished = reject;
+  });
+
+  const tick = () => {
+    const current = marks.filter((m) => m.time <= audio.currentTime).pop();
+    if (current && current.index !== lastIndex) {
+      lastIndex = current.index;
+      onBoundary?.({ start: current.index, end: current.index + 1 });
+    }
+    frame = requestAnimationFrame(tick);
+  };
+
+  const stop = () => {
+    cancelAnimationFrame(frame);
+    audio.pause();
+    // Data URL 不需要像 Blob URL 那樣 revoke，清空 src 即可釋放
+    audio.src = "";
+    resolveFinished();
+  };
+  audio.onended = stop;
+  audio.onerror = () => {
+    cancelAnimationFrame(frame);
+    rejectFinished(new Error(audio.error?.message || "雲端語音播放失敗"));
+  };
+
+  try {
+    await audio.play();
+  } catch (error) {
+    // play() 失敗時錯誤由呼叫端處理，finished 不會再被等待
+    finished.catch(() => {});
+    throw error;
+  }
+  if (onBoundary && marks.length > 0) frame = requestAnimationFrame(tick);
+  return { stop, finished };
+};
 
 export const playCloudTTS = async (
-  text: string, 
+  text: string,
   apiKey: string,
   isSimplified: boolean = false
-): Promise<HTMLAudioElement> => {
+): Promise<SpeechPlayback> => {
   if (!apiKey) {
     throw new Error("請設定 API Key 以使用雲端語音");
   }
@@ -29,44 +132,206 @@ export const playCloudTTS = async (
     // 繁體中文: cmn-TW-Wavenet-A (女聲), cmn-TW-Wavenet-B (男聲), cmn-TW-Wavenet-C (女聲)
     // 簡體中文: cmn-CN-Wavenet-A (女聲), cmn-CN-Wavenet-C (男聲)
     // "Wavenet" 系列是 Google 最自然的神經網絡語音
-    const voiceName = isSimplified ? "cmn-CN-Wavenet-A" : "cmn-TW-Wavenet-A";
-    const languageCode = isSimplified ? "cmn-CN" : "cmn-TW";
-
-    const response = await fetch(`${GOOGLE_TTS_API_URL}?key=${apiKey}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        input: { text: text },
-        voice: { languageCode: languageCode, name: voiceName },
-        audioConfig: { audioEncoding: "MP3", speakingRate: 0.85 } // 稍微放慢
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error?.message || "Google TTS 請求失敗");
+    const { voiceName, languageCode } = getCloudVoice(isSimplified);
+
+    const cacheKey = `${voiceName}:${text}`;
+
+    let audioContent = await cloudSpeechCache.get(cacheKey);
+    if (!audioContent) {
+      audioContent = await fetchCloudSpeech(text, apiKey, languageCode, voiceName);
+      await cloudSpeechCache.set(cacheKey, audioContent);
     }
 
-    const data = await response.json();
-    const audioContent = data.audioContent; // Base64 string
-
-    const audioUrl = `data:audio/mp3;base64,${audioContent}`;
-    const audio = new Audio(audioUrl);
-    
-    return new Promise((resolve, reject) => {
-      audio.onended = () => {
-        // Data URL 不需要像 Blob URL 那樣 revoke，但為了保險起見可以設為 null
-        audio.src = ""; 
-      };
-      audio.onerror = (e) => reject(e);
-      
-      audio.play().then(() => resolve(audio)).catch(reject);
-    });
+    return await playAudio(new Audio(`data:audio/mp3;base64,${audioContent}`));
 
   } catch (error) {
     console.error("Cloud TTS Error:", error);
     throw error;
   }
 };
+
+const escapeSsml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// 每個非空白字元前插入 <mark name="字元位置"/>
+const toMarkedSsml = (text: string) =>
+  `<speak>${text
+    .split("")
+    .map((char, i) => (/\s/.test(char) ? char : `<mark name="${i}"/>${escapeSsml(char)}`))
+    .join("")}</speak>`;
+
+// Google TTS 單次輸入上限為 5000 bytes，每個字的 mark 約佔 20 bytes，保留一些餘裕
+const MAX_SSML_BYTES = 4500;
+const SENTENCE_BREAK = /[\s。！？，、；：.!?,;:]/;
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * 把長文字切成 SSML 不超過上限的段落 (盡量在標點或空白後斷開)，
+ * offset 為段落在原文中的起始位置
+ */
+const splitForSsml = (text: string) => {
+  const chunks: { text: string; offset: number }[] = [];
+  let start = 0;
+  let bytes = byteLength("<speak></speak>");
+  let lastBreak = -1;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const charBytes = /\s/.test(char)
+      ? byteLength(char)
+      : byteLength(`<mark name="${i - start}"/>${escapeSsml(char)}`);
+    if (bytes + charBytes > MAX_SSML_BYTES && i > start) {
+      const end = lastBreak > start ? lastBreak : i;
+      chunks.push({ text: text.slice(start, end), offset: start });
+      start = end;
+      lastBreak = -1;
+      i = start - 1;
+      bytes = byteLength("<speak></speak>");
+      continue;
+    }
+    bytes += charBytes;
+    if (SENTENCE_BREAK.test(char)) lastBreak = i + 1;
+  }
+  if (start < text.length) chunks.push({ text: text.slice(start), offset: start });
+  return chunks;
+};
+
+const fetchMarkedSpeech = async (
+  text: string,
+  apiKey: string,
+  languageCode: string,
+  voiceName: string
+): Promise<MarkedSpeech> => {
+  const response = await fetch(`${GOOGLE_TTS_BETA_API_URL}?key=${apiKey}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      input: { ssml: toMarkedSsml(text) },
+      voice: { languageCode, name: voiceName },
+      audioConfig: { audioEncoding: "MP3", speakingRate: 0.85 },
+      enableTimePointing: ["SSML_MARK"],
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error?.message || "Google TTS 請求失敗");
+  }
+
+  const data = await response.json();
+  return { audioContent: data.audioContent, timepoints: data.timepoints || [] };
+};
+
+/**
+ * 雲端朗讀整段文字：以 SSML mark 取得每個字的時間點，播放時依目前時間回報朗讀位置。
+ * 超過輸入上限的文字分段請求並接續播放；播放中途的段落失敗時 finished 會 reject
+ */
+export const playCloudTTSWithMarks = async (
+  text: string,
+  apiKey: string,
+  isSimplified: boolean,
+  onBoundary: (boundary: SpeechBoundary) => void
+): Promise<SpeechPlayback> => {
+  if (!apiKey) {
+    throw new Error("請設定 API Key 以使用雲端語音");
+  }
+
+  const { voiceName, languageCode } = getCloudVoice(isSimplified);
+  const loadChunk = async (chunk: string) => {
+    const cacheKey = `${voiceName}:${chunk}`;
+    let speech = await markedSpeechCache.get(cacheKey);
+    if (!speech) {
+      speech = await fetchMarkedSpeech(chunk, apiKey, languageCode, voiceName);
+      await markedSpeechCache.set(cacheKey, speech);
+    }
+    return speech;
+  };
+  const playChunk = (speech: MarkedSpeech, offset: number) => {
+    const marks = speech.timepoints
+      .map((t) => ({ index: offset + Number(t.markName), time: t.timeSeconds }))
+      .filter((m) => Number.isFinite(m.index))
+      .sort((a, b) => a.time - b.time);
+    return playAudio(
+      new Audio(`data:audio/mp3;base64,${speech.audioContent}`),
+      marks,
+      onBoundary
+    );
+  };
+
+  const chunks = splitForSsml(text);
+  // 第一段的錯誤直接拋出，讓 speechService 改用其他來源
+  let current = await playChunk(await loadChunk(chunks[0].text), chunks[0].offset);
+  if (chunks.length === 1) return current;
+
+  let isStopped = false;
+  let resolveFinished = () => {};
+  let rejectFinished = (_error: unknown) => {};
+  const finished = new Promise<void>((resolve, reject) => {
+    resolveFinished = resolve;
+    rejectFinished = reject;
+  });
+  (async () => {
+    for (const chunk of chunks.slice(1)) {
+      // 播放目前段落時先下載下一段
+      const next = loadChunk(chunk.text);
+      await current.finished;
+      const speech = await next;
+      if (isStopped) return;
+      current = await playChunk(speech, chunk.offset);
+      // play() 等待期間已被停止：剛開始的段落也要停下
+      if (isStopped) {
+        current.stop();
+        return;
+      }
+    }
+    await current.finished;
+  })().then(
+    () => resolveFinished(),
+    (error) => {
+      console.error("Cloud TTS Error:", error);
+      if (!isStopped) rejectFinished(error);
+    }
+  );
+
+  return {
+    stop: () => {
+      isStopped = true;
+      current.stop();
+      resolveFinished();
+    },
+    finished,
+  };
+};
+
+let currentPlayback: SpeechPlayback | null = null;
+
+export const cloudSpeechProvider: SpeechProvider = {
+  name: "cloud",
+  label: "雲端",
+  capabilities: {
+    voiceSelection: false,
+    boundaries: true,
+    requiresApiKey: true,
+  },
+  isAvailable: () => !!process.env.API_KEY,
+  listVoices: (isSimplified) => {
+    const { voiceName, languageCode } = getCloudVoice(isSimplified);
+    return [{ id: voiceName, name: "Wavenet A", lang: languageCode }];
+  },
+  speak: async (text, { isSimplified, onBoundary }) => {
+    currentPlayback?.stop();
+    const apiKey = process.env.API_KEY || "";
+    const playback = onBoundary
+      ? await playCloudTTSWithMarks(text, apiKey, isSimplified, onBoundary)
+      : await playCloudTTS(text, apiKey, isSimplified);
+    currentPlayback = playback;
+    const clear = () => {
+      if (currentPlayback === playback) currentPlayback = null;
+    };
+    playback.finished.then(clear, clear);
+    return playback;
+  },
+  stop: () => currentPlayback?.stop(),
+};
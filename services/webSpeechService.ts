@@ -0,0 +1,169 @@
+import { SpeakOptions, SpeechPlayback, SpeechProvider, SpeechVoice } from "../types";
+
+/**
+ * 瀏覽器內建語音 (Web Speech API)
+ *
+ * 免費、離線也能使用，但音質取決於裝置。語音清單由瀏覽器非同步載入，
+ * 載入完成時會觸發 voiceschanged 事件，可用 onVoicesChanged 訂閱。
+ */
+
+// 各平台音質較好的語音，排在清單前面作為預設
+const PREFERRED_VOICES = {
+  simplified: ["Tingting", "Lili", "Google 普通话", "Microsoft Xiaoxiao"],
+  traditional: ["Meijia", "HsiaoYu", "Google 國語", "Microsoft Hanhan"],
+};
+
+// 語音不觸發 boundary 事件時，依語速估計每個字約需的時間
+const ESTIMATED_CHAR_MS = 280;
+// 錯誤事件才是主要的失敗訊號；這個時間只防止語音佇列卡住時永遠等不到開始，
+// 需涵蓋首次載入語音或長文字合成的延遲
+const START_TIMEOUT_MS = 15000;
+
+const isSupported = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window;
+
+const getZhVoices = () =>
+  isSupported()
+    ? window.speechSynthesis.getVoices().filter((v) => v.lang.startsWith("zh"))
+    : [];
+
+// 語音清單已載入但沒有中文語音時，這個來源無法使用 (尚未載入時先嘗試播放)
+const hasZhVoice = () =>
+  window.speechSynthesis.getVoices().length === 0 || getZhVoices().length > 0;
+
+const rankVoice = (voice: SpeechSynthesisVoice, isSimplified: boolean) => {
+  const preferred = isSimplified
+    ? PREFERRED_VOICES.simplified
+    : PREFERRED_VOICES.traditional;
+  if (preferred.some((name) => voice.name.includes(name))) return 0;
+  if (voice.lang === (isSimplified ? "zh-CN" : "zh-TW")) return 1;
+  return 2;
+};
+
+const sortVoices = (voices: SpeechSynthesisVoice[], isSimplified: boolean) =>
+  [...voices].sort(
+    (a, b) => rankVoice(a, isSimplified) - rankVoice(b, isSimplified)
+  );
+
+export const onVoicesChanged = (listener: () => void) => {
+  if (!isSupported()) return () => {};
+  window.speechSynthesis.addEventListener("voiceschanged", listener);
+  return () =>
+    window.speechSynthesis.removeEventListener("voiceschanged", listener);
+};
+
+const speak = async (
+  text: string,
+  { isSimplified, voiceId, rate = 1, onBoundary }: SpeakOptions
+): Promise<SpeechPlayback> => {
+  if (!isSupported()) throw new Error("此瀏覽器不支援語音播放");
+  if (!hasZhVoice()) throw new Error("此裝置沒有中文語音");
+
+  const voices = sortVoices(getZhVoices(), isSimplified);
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = isSimplified ? "zh-CN" : "zh-TW";
+  const voice = voices.find((v) => v.name === voiceId) || voices[0];
+  if (voice) utterance.voice = voice;
+  utterance.rate = rate;
+
+  // 非空白字元的位置，用於沒有 boundary 事件時逐字推進
+  const positions = text
+    .split("")
+    .map((char, i) => (/\s/.test(char) ? -1 : i))
+    .filter((i) => i >= 0);
+  let timer = 0;
+  let hasBoundaryEvents = false;
+  let resolveFinished = () => {};
+  const finished = new Promise<void>((resolve) => (resolveFinished = resolve));
+
+  const finish = () => {
+    window.clearInterval(timer);
+    resolveFinished();
+  };
+
+  // 開始播放才算成功；開始前的錯誤 (例如 synthesis-failed) 讓 speak 失敗以便改用其他來源
+  let settleStart: (error?: Error) => void = () => {};
+  const started = new Promise<void>((resolve, reject) => {
+    settleStart = (error) => (error ? reject(error) : resolve());
+  });
+  const startTimer = window.setTimeout(
+    () => settleStart(new Error("瀏覽器語音沒有開始播放")),
+    START_TIMEOUT_MS
+  );
+
+  utterance.onstart = () => {
+    window.clearTimeout(startTimer);
+    settleStart();
+    if (onBoundary) {
+      let step = 0;
+      timer = window.setInterval(() => {
+        if (hasBoundaryEvents || step >= positions.length) {
+          window.clearInterval(timer);
+          return;
+        }
+        onBoundary({ start: positions[step], end: positions[step] + 1 });
+        step += 1;
+      }, ESTIMATED_CHAR_MS / utterance.rate);
+    }
+  };
+  if (onBoundary) {
+    utterance.onboundary = (event) => {
+      hasBoundaryEvents = true;
+      const length = event.charLength || 1;
+      onBoundary({ start: event.charIndex, end: event.charIndex + length });
+    };
+  }
+  utterance.onend = finish;
+  utterance.onerror = (e) => {
+    window.clearTimeout(startTimer);
+    if (e.error !== "interrupted" && e.error !== "canceled") {
+      console.error("TTS Error:", e);
+      settleStart(new Error(`瀏覽器語音播放失敗 (${e.error})`));
+    } else {
+      settleStart();
+    }
+    finish();
+  };
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+  try {
+    await started;
+  } catch (error) {
+    // 先取消這段語音再交給其他來源，避免稍後開始播放時兩個來源重疊
+    utterance.onstart = null;
+    utterance.onboundary = null;
+    window.speechSynthesis.cancel();
+    finish();
+    throw error;
+  }
+
+  return {
+    stop: () => {
+      window.speechSynthesis.cancel();
+      finish();
+    },
+    finished,
+  };
+};
+
+export const webSpeechProvider: SpeechProvider = {
+  name: "web",
+  label: "本地",
+  capabilities: {
+    voiceSelection: true,
+    boundaries: true,
+    requiresApiKey: false,
+  },
+  isAvailable: () => isSupported() && hasZhVoice(),
+  listVoices: (isSimplified): SpeechVoice[] =>
+    sortVoices(getZhVoices(), isSimplified).map((voice) => ({
+      id: voice.name,
+      name: voice.name.replace("Microsoft", "").replace("Google", "").trim(),
+      lang: voice.lang,
+    })),
+  speak,
+  stop: () => {
+    if (isSupported()) window.speechSynthesis.cancel();
+  },
+};
@@ -0,0 +1,208 @@
+import { GridSettings } from "../types";
+import { getGridLines } from "./gridService";
+import { StrokeDataJson, getStrokeTransform } from "./strokeDataService";
+
+/**
+ * 練習單產生器 (純前端，輸出 SVG)
+ *
+ * 每個字一個區塊：範字 + 讀音、筆順分解、描紅格 (逐漸變淡) 與空白練習格。
+ * 單位為 mm，版面為 A4 直式；列印或「另存為 PDF」由瀏覽器完成。
+ */
+
+export interface WorksheetEntry {
+  char: string;
+  data: StrokeDataJson;
+  pinyin?: string;
+  zhuyin?: string;
+}
+
+export interface WorksheetOptions {
+  grid: GridSettings;
+  title?: string;
+  tracedCells: number; // 描紅格數量
+  showStrokeOrder: boolean;
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 12;
+const CELL = 18; // 練習格大小
+const FRAME = 9; // 筆順分解格大小
+const CELLS_PER_ROW = Math.floor((PAGE_WIDTH - MARGIN * 2) / CELL);
+const FRAMES_PER_ROW = Math.floor((PAGE_WIDTH - MARGIN * 2) / FRAME);
+const BLOCK_GAP = 6;
+const TITLE_HEIGHT = 12;
+const STROKE_HIGHLIGHT = "#e11d48";
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const renderGrid = (x: number, y: number, size: number, grid: GridSettings) => {
+  const lines = getGridLines(grid.style)
+    .map(
+      (line) =>
+        `<line x1="${x + (line.x1 * size) / 100}" y1="${y + (line.y1 * size) / 100}" x2="${x + (line.x2 * size) / 100}" y2="${y + (line.y2 * size) / 100}"${line.dashed ? ' stroke-dasharray="0.8"' : ""} />`
+    )
+    .join("");
+  const opacity = grid.style === "none" ? 0.4 : Math.max(grid.contrast, 0.4);
+  return `<g stroke="${grid.style === "none" ? "#94a3b8" : grid.color}" stroke-width="0.2" fill="none" opacity="${opacity}"><rect x="${x}" y="${y}" width="${size}" height="${size}" />${lines}</g>`;
+};
+
+const renderStrokes = (
+  x: number,
+  y: number,
+  size: number,
+  strokes: string[],
+  fill: string,
+  opacity = 1
+) =>
+  `<g transform="translate(${x}, ${y})"><g transform="${getStrokeTransform(size, size * 0.05)}" fill="${fill}" opacity="${opacity}">${strokes
+    .map((d) => `<path d="${d}" />`)
+    .join("")}</g></g>`;
+
+const strokeOrderRows = (entry: WorksheetEntry, options: WorksheetOptions) =>
+  options.showStrokeOrder
+    ? Math.ceil(entry.data.strokes.length / FRAMES_PER_ROW)
+    : 0;
+
+const blockHeight = (entry: WorksheetEntry, options: WorksheetOptions) =>
+  CELL + 2 + strokeOrderRows(entry, options) * FRAME + 2 + CELL + BLOCK_GAP;
+
+const renderBlock = (
+  entry: WorksheetEntry,
+  top: number,
+  options: WorksheetOptions
+) => {
+  const parts: string[] = [];
+  const { strokes } = entry.data;
+  const left = MARGIN;
+
+  // 範字與讀音
+  parts.push(renderGrid(left, top, CELL, options.grid));
+  parts.push(renderStrokes(left, top, CELL, strokes, "#000000"));
+  const reading = [entry.pinyin, entry.zhuyin].filter(Boolean).join("  ");
+  parts.push(
+    `<text x="${left + CELL + 4}" y="${top + 8}" font-size="5" fill="#334155">${escapeXml(reading)}</text>`,
+    `<text x="${left + CELL + 4}" y="${top + 15}" font-size="3.2" fill="#94a3b8">${strokes.length} 劃</text>`
+  );
+
+  // 筆順分解：每格累積到第 n 筆，第 n 筆以紅色標示
+  let y = top + CELL + 2;
+  if (options.showStrokeOrder) {
+    strokes.forEach((stroke, i) => {
+      const col = i % FRAMES_PER_ROW;
+      const row = Math.floor(i / FRAMES_PER_ROW);
+      const fx = left + col * FRAME;
+      const fy = y + row * FRAME;
+      parts.push(renderGrid(fx, fy, FRAME, options.grid));
+      parts.push(renderStrokes(fx, fy, FRAME, strokes.slice(0, i), "#334155"));
+      parts.push(renderStrokes(fx, fy, FRAME, [stroke], STROKE_HIGHLIGHT));
+      parts.push(
+        `<text x="${fx + 0.8}" y="${fy + 2.6}" font-size="2.2" fill="#64748b">${i + 1}</text>`
+      );
+    });
+    y += strokeOrderRows(entry, options) * FRAME;
+  }
+
+  // 描紅格 (逐漸變淡) + 空白練習格
+  y += 2;
+  for (let i = 0; i < CELLS_PER_ROW; i++) {
+    const cx = left + i * CELL;
+    parts.push(renderGrid(cx, y, CELL, options.grid));
+    if (i < options.tracedCells) {
+      const opacity = 0.45 * (1 - i / Math.max(options.tracedCells, 1)) + 0.08;
+      parts.push(renderStrokes(cx, y, CELL, strokes, "#64748b", opacity));
+    }
+  }
+
+  return parts.join("");
+};
+
+/**
+ * 產生各頁的 SVG 字串
+ */
+export const buildWorksheetPages = (
+  entries: WorksheetEntry[],
+  options: WorksheetOptions
+): string[] => {
+  const pages: string[][] = [[]];
+  let top = MARGIN + (options.title ? TITLE_HEIGHT : 0);
+
+  entries.forEach((entry) => {
+    const height = blockHeight(entry, options);
+    if (top + height > PAGE_HEIGHT - MARGIN && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      top = MARGIN;
+    }
+    pages[pages.length - 1].push(renderBlock(entry, top, options));
+    top += height;
+  });
+
+  return pages.map((blocks, pageIndex) => {
+    const title =
+      options.title && pageIndex === 0
+        ? `<text x="${MARGIN}" y="${MARGIN + 6}" font-size="6" font-weight="bold" fill="#1e293b">${escapeXml(options.title)}</text><text x="${PAGE_WIDTH - MARGIN}" y="${MARGIN + 6}" font-size="3.5" fill="#94a3b8" text-anchor="end">姓名：＿＿＿＿＿＿　日期：＿＿＿＿＿＿</text>`
+        : "";
+    const footer = `<text x="${PAGE_WIDTH / 2}" y="${PAGE_HEIGHT - 5}" font-size="3" fill="#cbd5e1" text-anchor="middle">${pageIndex + 1} / ${pages.length}</text>`;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${PAGE_HEIGHT}mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}" font-family="'Noto Sans TC', sans-serif"><rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#ffffff" />${title}${blocks.join("")}${footer}</svg>`;
+  });
+};
+
+// 標題列右側留給姓名與日期欄，長文字只顯示開頭
+const MAX_TITLE_CHARS = 16;
+const MAX_FILENAME_CHARS = 12;
+
+export const getWorksheetTitle = (text: string) => {
+  const chars = [...text.replace(/\s+/g, " ").trim()];
+  return chars.length > MAX_TITLE_CHARS
+    ? `${chars.slice(0, MAX_TITLE_CHARS).join("")}…`
+    : chars.join("");
+};
+
+// 去除檔名不允許的字元與空白，只取開頭幾個字
+export const getWorksheetFilename = (text: string) => {
+  const name = [...text.replace(/[\s\\/:*?"<>|\p{Cc}]/gu, "")]
+    .slice(0, MAX_FILENAME_CHARS)
+    .join("");
+  return `zenscribe-${name || "worksheet"}.svg`;
+};
+
+/**
+ * 將所有頁面上下接成一個 SVG 檔下載
+ */
+export const downloadWorksheetSvg = (pages: string[], filename: string) => {
+  const inner = pages
+    .map(
+      (page, i) =>
+        `<g transform="translate(0, ${i * PAGE_HEIGHT})">${page.replace(/^<svg[^>]*>|<\/svg>$/g, "")}</g>`
+    )
+    .join("");
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}mm" height="${PAGE_HEIGHT * pages.length}mm" viewBox="0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT * pages.length}" font-family="'Noto Sans TC', sans-serif">${inner}</svg>`;
+
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/**
+ * 開啟列印視窗 (可選擇「另存為 PDF」)
+ */
+export const printWorksheet = (pages: string[], title: string) => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) {
+    throw new Error("無法開啟列印視窗，請允許彈出式視窗");
+  }
+  printWindow.document.write(`<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeXml(title)}</title>
+<style>@page { size: A4; margin: 0; } body { margin: 0; } .page { width: 210mm; height: 297mm; page-break-after: always; } .page:last-child { page-break-after: auto; }</style>
+</head><body>${pages.map((page) => `<div class="page">${page}</div>`).join("")}</body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
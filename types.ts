@@ -1,19 +1,333 @@
 
-export type PracticeMode = 'viewer' | 'quiz';
+export type PracticeMode = 'viewer' | 'quiz' | 'freehand';
 
 export interface CharacterInfo {
   char: string;
   meaning?: string;
+  gloss?: string; // 本地字典的英文釋義，沒有中文解釋時才顯示
   pinyin?: string;
   zhuyin?: string;
   radical?: string;
   strokeCount?: number;
   examples?: string[];
+  flags?: InsightFlags;
+}
+
+// corrected: 原始資料有誤，已自動校正；untrusted: 無法驗證，顯示時需提醒
+export type InsightFlag = 'corrected' | 'untrusted';
+
+export type InsightFlags = Partial<
+  Record<Exclude<keyof CharacterInfo, 'flags'>, InsightFlag>
+>;
+
+export interface WordExample {
+  sentence: string;
+  translation?: string;
+}
+
+// 詞語層級的解析 (例如「永和」)
+export interface WordInfo {
+  word: string;
+  definition?: string;
+  pinyin?: string; // 實際讀音 (已套用變調)
+  citationPinyin?: string; // 逐字本調
+  zhuyin?: string;
+  examples?: WordExample[];
+}
+
+// 文字解析來源 (Gemini、本地字典…)，依設定順序互相補足欄位
+export interface InsightsProvider {
+  name: string;
+  isAvailable: () => boolean;
+  getInsights: (
+    char: string,
+    isSimplified: boolean
+  ) => Promise<CharacterInfo | null>;
+  getWordInsights?: (
+    word: string,
+    isSimplified: boolean
+  ) => Promise<WordInfo | null>;
+  // 一次請求取得多個字 (整段文字預先載入)，回傳與 chars 對齊
+  getBatchInsights?: (
+    chars: string[],
+    isSimplified: boolean,
+    signal?: AbortSignal
+  ) => Promise<(CharacterInfo | null)[]>;
+}
+
+// 整段文字的解析預先載入：每個字一個 Promise，換文字時取消尚未送出的批次；
+// 批次沒有取得 (失敗或已取消) 的字解析為 undefined，呼叫端應改為單獨查詢
+export interface InsightsPrefetch {
+  insights: Map<string, Promise<CharacterInfo | null | undefined>>;
+  cancel: () => void;
+  isCancelled: () => boolean;
+  finished: Promise<void>;
+}
+
+// 田字格、米字格、九宮格、回宮格或無格線
+export type GridStyle = 'tian' | 'mi' | 'jiugong' | 'huigong' | 'none';
+
+export interface GridSettings {
+  style: GridStyle;
+  color: string;
+  contrast: number; // 0 - 1，格線不透明度
+}
+
+// 單一筆劃的測驗紀錄
+export interface StrokeResult {
+  strokeNum: number;
+  mistakes: number;
+  hintShown: boolean; // 錯誤次數達到提示門檻，HanziWriter 已顯示提示
+  durationMs: number; // 從上一筆完成（或測驗開始）到本筆完成的時間
+}
+
+// 一次完整測驗（寫完一個字）的結果
+export interface QuizResult {
+  char: string;
+  strokes: StrokeResult[];
+  totalMistakes: number;
+  hintsUsed: number;
+  totalDurationMs: number;
+  accuracy: number; // 0 - 100
+  startedAt: number;
+  completedAt: number;
+}
+
+// 自由書寫的原始筆跡點，座標為筆順資料的 1024 字框 (y 軸向上)
+export interface InkPoint {
+  x: number;
+  y: number;
+  t: number; // 自落筆起的毫秒數
+  pressure?: number; // 0 - 1，裝置不支援時省略
+}
+
+export interface InkStroke {
+  points: InkPoint[];
+  startedAt: number;
+}
+
+// order: 筆順；direction: 方向；proportion: 長短比例；position: 位置；shape: 形狀
+export type FreehandIssue =
+  | 'order'
+  | 'direction'
+  | 'proportion'
+  | 'position'
+  | 'shape';
+
+// 參考筆劃的評分，drawnIndex 為 null 表示漏寫
+export interface FreehandStrokeGrade {
+  strokeNum: number;
+  drawnIndex: number | null;
+  issues: FreehandIssue[];
+  score: number; // 0 - 100
+  offset: { x: number; y: number }; // 書寫重心相對參考重心的位移
+  lengthRatio: number; // 書寫長度 / 參考長度
+}
+
+// 一次自由書寫的評分結果
+export interface FreehandResult {
+  char: string;
+  ink: InkStroke[];
+  strokes: FreehandStrokeGrade[];
+  extraStrokes: number[]; // 無法對應任何參考筆劃的書寫索引
+  score: number; // 0 - 100
+  startedAt: number;
+  completedAt: number;
+}
+
+// 書寫紀錄中的一筆：原始筆跡加上 HanziWriter 的判定 (自由書寫時省略)
+export interface AttemptStroke extends InkStroke {
+  strokeNum?: number;
+  isCorrect?: boolean;
+}
+
+// 一次書寫嘗試 (一個字) 的完整紀錄，可重播並匯出給老師檢閱
+export interface WritingAttempt {
+  id: string;
+  char: string;
+  mode: 'quiz' | 'freehand';
+  strokes: AttemptStroke[];
+  isComplete: boolean; // 中途換字或重寫時為 false
+  score?: number; // 測驗正確率或自由書寫分數
+  startedAt: number;
+  completedAt: number;
+}
+
+// 課程庫中的一課 (依程度或課本章節分組)
+export interface Lesson {
+  id: string;
+  title: string;
+  group: string;
+  text: string; // 詞語之間以空白分隔
+  isBuiltIn?: boolean;
+}
+
+// 整段文字的讀音標注方式
+export type RubyMode = 'none' | 'pinyin' | 'zhuyin';
+
+// 每位學習者各自保存的偏好設定
+export interface ProfilePreferences {
+  isSimplified: boolean;
+  voiceName: string | null; // 手動選擇的本地語音，null 表示自動選擇
+  speechProvider: SpeechProviderId;
+  speed: number;
+  grid: GridSettings;
+  isDemoCompact: boolean;
+  practiceMode: 'quiz' | 'freehand';
+  isDictation: boolean; // 聽寫：隱藏目前的字，只播放讀音
+  rubyMode: RubyMode; // 導覽列與全文閱讀的讀音標注
+  highlightRadical: boolean;
+  highlightComponents: boolean;
+}
+
+// 目前練習到的位置
+export interface LessonPosition {
+  text: string;
+  index: number;
+  lessonId: string | null; // 從課程庫載入時記錄課程 id
+}
+
+// 完成書寫的歷程紀錄
+export interface CompletedCharacter {
+  char: string;
+  isSimplified: boolean;
+  mode: 'quiz' | 'freehand' | 'dictation' | 'exam';
+  score: number; // 測驗正確率或自由書寫分數
+  mistakes: number;
+  missedStrokes: number[]; // 出錯 (或自由書寫有問題) 的筆劃
+  durationMs: number;
+  lessonId: string | null;
+  completedAt: number;
+}
+
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  preferences: ProfilePreferences;
+  position: LessonPosition;
+  history: CompletedCharacter[];
+}
+
+// 考試設定：每字時間限制 (秒，0 為不限) 與提示門檻
+export interface ExamSettings {
+  timeLimitSec: number;
+  hintAfterMisses: number | false;
+  showOutline: boolean;
+}
+
+// completed: 寫完；timeout: 超過時間；skipped: 考生略過
+export type ExamItemStatus = 'completed' | 'timeout' | 'skipped';
+
+export interface ExamItemResult {
+  char: string;
+  status: ExamItemStatus;
+  quiz: QuizResult | null; // 只有寫完的字才有完整測驗結果
+  correctStrokes: number;
+  mistakes: number;
+  durationMs: number;
+}
+
+// 語音提供者：瀏覽器內建 (Web Speech)、Google Cloud TTS、Gemini 語音
+export type SpeechProviderId = 'web' | 'cloud' | 'gemini';
+
+export interface SpeechVoice {
+  id: string;
+  name: string;
+  lang: string;
+}
+
+export interface SpeechCapabilities {
+  voiceSelection: boolean; // 可選擇不同語音
+  boundaries: boolean; // 朗讀時能回報正在唸的字 (否則以時間估計)
+  requiresApiKey: boolean;
+}
+
+// 朗讀時回報正在唸的字 (以原文的字元位置表示)
+export interface SpeechBoundary {
+  start: number;
+  end: number;
+}
+
+export interface SpeakOptions {
+  isSimplified: boolean;
+  voiceId?: string | null;
+  rate?: number; // 語速倍率，1 為正常 (雲端語音固定稍慢，不受此影響)
+  onBoundary?: (boundary: SpeechBoundary) => void;
+}
+
+// 開始播放後取得，可隨時停止；finished 在唸完或被停止時 resolve
+export interface SpeechPlayback {
+  stop: () => void;
+  finished: Promise<void>;
+}
+
+export interface SpeechProvider {
+  name: SpeechProviderId;
+  label: string; // 顯示於語音來源選單
+  capabilities: SpeechCapabilities;
+  isAvailable: () => boolean;
+  listVoices: (isSimplified: boolean) => SpeechVoice[];
+  speak: (text: string, options: SpeakOptions) => Promise<SpeechPlayback>;
+  stop: () => void;
+}
+
+// 錄音的音高曲線：t 為秒，semitone 為相對於整段中位數的半音差
+export interface PitchPoint {
+  t: number;
+  hz: number;
+  semitone: number;
+}
+
+// 語音辨識：可替換為本地辨識器 (例如 WebAssembly 模型)
+export interface RecognitionSession {
+  stop: () => void;
+  result: Promise<string[]>; // 候選文字，可能為空
+}
+
+export interface SpeechRecognizer {
+  name: string;
+  label: string;
+  isAvailable: () => boolean;
+  start: (options: { lang: string; stream: MediaStream }) => RecognitionSession;
+}
+
+// Web Speech 辨識尚未列入 TypeScript 的 DOM 型別，只宣告用到的部分
+export interface SpeechRecognitionEvent extends Event {
+  results: SpeechRecognitionResultList;
+}
+
+export interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+}
+
+export interface BrowserSpeechRecognition {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
 }
 
-// Global window extension for HanziWriter which is loaded via CDN
 declare global {
   interface Window {
-    HanziWriter: any;
+    SpeechRecognition?: new () => BrowserSpeechRecognition;
+    webkitSpeechRecognition?: new () => BrowserSpeechRecognition;
   }
 }
+
+// 一次「說說看」的評估結果
+export interface PronunciationResult {
+  char: string;
+  expectedPinyin: string; // 聲調符號拼音
+  expectedTone: number; // 1 - 4，5 為輕聲
+  transcripts: string[];
+  heardPinyin: string | null; // 辨識結果中最接近的讀音
+  syllableMatch: boolean | null; // 無法辨識時為 null
+  detectedTone: number | null; // 由音高曲線判斷，聲音太短或太小時為 null
+  toneMatch: boolean | null;
+  contour: PitchPoint[];
+}